@@ -5,7 +5,7 @@
  *  1. Express HTTP + WebSocket server
  *  2. Live X-Clone Stream consumer
  *  3. BullMQ Detection worker
- *  4. BullMQ Brand Intelligence worker (hourly)
+ *  4. BullMQ Brand Intelligence worker (per-source crawl schedule)
  *  5. BullMQ Verification + Response worker (every 5 mins)
  *  6. WebSocket dashboard notifications
  *  7. Graceful shutdown
@@ -18,14 +18,23 @@ import { WebSocketServer } from "ws";
 import dotenv from "dotenv";
 import { logger } from "./config/logger";
 import { EventSource } from "eventsource";
-import { Queue, Worker } from "bullmq";
+import { Queue, UnrecoverableError, Worker } from "bullmq";
 import IORedis from "ioredis";
 import { PrismaClient } from "@prisma/client";
 import cors from "cors"; 
 import crypto from "crypto";
 
-import { detectAndStorePost } from "./services/detection.service";
-import { BrandIntelligenceService } from "./services/brand-intelligence.service";
+import { detectAndStorePost, parsePlatform } from "./services/detection.service";
+import { meterPost, MeteringResult } from "./services/usage.service";
+import { getMonitorMatcher } from "./services/monitor-query";
+import { tierHasFeature } from "./config/entitlements";
+import {
+  CRAWL_JOB,
+  enqueueDueSources,
+  runScheduledCrawl,
+  SCHEDULE_JOB,
+} from "./services/crawl-scheduler.service";
+import { brandIntelQueue } from "./queues/brand-intel.queue";
 import {
   verificationQueue,
   scheduleVerificationScanner,
@@ -36,6 +45,27 @@ import {
   postResponseToXClone,
 } from "./services/verification-response.service";
 import { dashboardRouter } from "./controller/dashboard.controller"
+import { authRouter } from "./controller/auth.controller"
+import {
+  requireAuth,
+  requireFeature,
+  requirePermission,
+} from "./middleware/auth.middleware"
+import { userRouter } from "./controller/user.controller"
+import { brandRouter } from "./controller/brand.controller"
+import { monitorRouter } from "./controller/monitor.controller"
+import { scrapeSourceRouter } from "./controller/scrape-source.controller"
+import { scrapedItemRouter } from "./controller/scraped-item.controller"
+import { sourceDomainRouter } from "./controller/source-domain.controller"
+import {
+  getActiveMonitors,
+  startMonitorRegistry,
+  stopMonitorRegistry,
+} from "./services/monitor-registry.service";
+import {
+  findResponseForClient,
+  findThreatForClient,
+} from "./services/tenant.service"
 
 dotenv.config();
 
@@ -48,7 +78,7 @@ const app = express();
 app.use(
   cors({
     origin: "*",
-    methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
     allowedHeaders: ["Content-Type", "Authorization"],
   })
 );
@@ -58,8 +88,23 @@ app.get("/", (_, res) => {
   res.json({ status: "Konfam backend running ✅" });
 });
 
+//  Auth Routes (public)
+app.use("/api/auth", authRouter)
+
 //  Dashboard Routes
-app.use("/api/dashboard", dashboardRouter)
+app.use("/api/dashboard", requireAuth, dashboardRouter)
+
+//  User Management Routes
+app.use("/api/users", requireAuth, userRouter)
+
+//  Brand & Monitor Management Routes
+app.use("/api/brands/:brandId/monitors", requireAuth, monitorRouter)
+app.use("/api/brands", requireAuth, brandRouter)
+
+//  Scrape Source Routes
+app.use("/api/scrape-sources", requireAuth, scrapeSourceRouter)
+app.use("/api/scraped-items", requireAuth, scrapedItemRouter)
+app.use("/api/source-domains", requireAuth, sourceDomainRouter)
 
 const server = createServer(app);
 const wss = new WebSocketServer({ server });
@@ -158,38 +203,75 @@ function startDetectionWorker() {
         `\n🧠 [Job ${job.id}] Starting detection on: "${post.content.slice(0, 70)}..."`
       );
 
-      const monitors = await prisma.monitor.findMany({
-        where: { isActive: true },
-        include: { brand: true },
-      });
+      const platform = parsePlatform(post.platform);
+      if (!platform) {
+        // malformed producer payload — retrying will not help
+        throw new UnrecoverableError(`Unknown platform "${post.platform}"`);
+      }
+
+      // served from the live-reloaded registry instead of Postgres per job;
+      // a monitor with no platform listens on all of them
+      const monitors = (await getActiveMonitors()).filter(
+        (m) => m.platform === null || m.platform === platform
+      );
 
       if (!monitors.length) {
-        console.log("⚠️ No monitors found — please seed one in the database.");
+        console.log(`⚠️ No monitors found for ${platform} — please seed one in the database.`);
         return;
       }
 
       let anyMatched = false;
+      // one metering decision per client per post, even if several monitors match
+      const metering = new Map<string, MeteringResult>();
 
       for (const monitor of monitors) {
-        const lower = post.content.toLowerCase();
-        const matched = monitor.keywords.some((k) =>
-          lower.includes(k.toLowerCase())
-        );
+        let matcher;
+        try {
+          matcher = getMonitorMatcher(monitor);
+        } catch (err: any) {
+          console.log(`⚠️ Invalid query on monitor "${monitor.name}": ${err.message}`);
+          continue;
+        }
+        const { matched, terms } = matcher.match(post.content);
 
         console.log(
           matched
-            ? `✅ Matched monitor "${monitor.name}" [keywords: ${monitor.keywords.join(", ")}]`
+            ? `✅ Matched monitor "${monitor.name}" [terms: ${terms.join(", ")}]`
             : `🚫 No match for monitor "${monitor.name}".`
         );
 
         if (!matched) continue;
         anyMatched = true;
 
+        // client is read fresh so plan / subscription changes apply immediately
+        const client = await prisma.client.findUnique({
+          where: { id: monitor.brand.clientId },
+        });
+        if (!client || !tierHasFeature(client.tier, "DETECTION")) continue;
+
+        let usage = metering.get(client.id);
+        if (!usage) {
+          usage = await meterPost(client);
+          metering.set(client.id, usage);
+        }
+
+        if (!usage.allowed) {
+          console.log(
+            `⛔ Client "${client.name}" is ${client.subscriptionStatus} — skipping monitor "${monitor.name}".`
+          );
+          continue;
+        }
+        if (usage.degraded) {
+          console.log(
+            `📉 Client "${client.name}" over monthly limit (${usage.postsAnalyzed}/${usage.monthlyPostLimit}) — keyword-only detection.`
+          );
+        }
+
         const threat = await detectAndStorePost({
           monitorId: monitor.id,
           brandId: monitor.brandId,
           externalPostId: post.externalPostId,
-          platform: post.platform,
+          platform,
           content: post.content,
           authorHandle: post.authorHandle,
           authorId: post.authorId,
@@ -198,9 +280,14 @@ function startDetectionWorker() {
           replyCount: post.replyCount,
           viewCount: post.viewCount,
           postedAt: new Date(post.postedAt),
+          degraded: usage.degraded,
         });
 
-        if (threat) {
+        if (
+          threat &&
+          !usage.degraded &&
+          tierHasFeature(client.tier, "AUTOMATED_VERIFICATION")
+        ) {
           await verificationQueue.add("verify-one", {
             threatId: threat.id,
             autopost: false,
@@ -235,53 +322,79 @@ function startDetectionWorker() {
  * 🧠 BRAND INTELLIGENCE SCRAPER WORKER
  * ------------------------------------------------------------ */
 async function startBrandIntelWorker() {
-  const brandIntelQueue = new Queue("brand-intelligence", { connection });
+  // global hourly schedules from before per-source scheduling
+  await brandIntelQueue.removeRepeatable("zenith-scrape", { pattern: "0 * * * *" });
+  await brandIntelQueue.removeRepeatable("brand-intel-cycle", { pattern: "0 * * * *" });
 
+  // the tick only enqueues; each due source gets its own crawl job
   await brandIntelQueue.add(
-    "zenith-scrape",
+    SCHEDULE_JOB,
     {},
     {
-      repeat: { pattern: "0 * * * *" },
+      repeat: { pattern: "* * * * *" },
       removeOnComplete: true,
     }
   );
 
   new Worker(
     "brand-intelligence",
-    async () => {
-      const scraper = new BrandIntelligenceService();
-      await scraper.runScrapeCycle();
+    async (job) => {
+      if (job.name === SCHEDULE_JOB) return enqueueDueSources(brandIntelQueue);
+      if (job.name === CRAWL_JOB) return runScheduledCrawl(job.data.sourceId, job.data.trigger);
+      console.log(`ℹ️ Unknown brand-intelligence job: ${job.name}`);
     },
-    { connection }
+    // a long crawl must not hold up the scheduler tick
+    { connection, concurrency: 2 }
   );
 
-  console.log("🧠 Brand Intelligence Scraper Worker scheduled (every hour)");
+  console.log("🧠 Brand Intelligence Scraper Worker scheduled (per-source crawlInterval, checked every minute)");
 }
 
 /* ------------------------------------------------------------
  * ✅ APPROVAL & VERIFICATION ROUTES
  * ------------------------------------------------------------ */
-app.post("/api/responses/:id/approve", async (req, res) => {
-  try {
-    const { id } = req.params;
-    await postResponseToXClone(id);
-    res.json({ ok: true, message: "Response posted successfully" });
-  } catch (err: any) {
-    res.status(500).json({ ok: false, error: err.message });
+app.post(
+  "/api/responses/:id/approve",
+  requireAuth,
+  requirePermission("responses:approve"),
+  async (req, res) => {
+    try {
+      const { id } = req.params;
+      const owned = await findResponseForClient(req.user!.clientId, id);
+      if (!owned) {
+        return res.status(404).json({ ok: false, error: "Response not found" });
+      }
+
+      await postResponseToXClone(id);
+      res.json({ ok: true, message: "Response posted successfully" });
+    } catch (err: any) {
+      res.status(500).json({ ok: false, error: err.message });
+    }
   }
-});
+);
 
-app.post("/api/threats/:id/verify", async (req, res) => {
-  try {
-    await verificationQueue.add("verify-one", {
-      threatId: req.params.id,
-      autopost: false,
-    });
-    res.json({ ok: true, message: "Verification queued" });
-  } catch (e: any) {
-    res.status(500).json({ ok: false, error: e.message });
+app.post(
+  "/api/threats/:id/verify",
+  requireAuth,
+  requirePermission("threats:verify"),
+  requireFeature("AUTOMATED_VERIFICATION"),
+  async (req, res) => {
+    try {
+      const owned = await findThreatForClient(req.user!.clientId, req.params.id);
+      if (!owned) {
+        return res.status(404).json({ ok: false, error: "Threat not found" });
+      }
+
+      await verificationQueue.add("verify-one", {
+        threatId: req.params.id,
+        autopost: false,
+      });
+      res.json({ ok: true, message: "Verification queued" });
+    } catch (e: any) {
+      res.status(500).json({ ok: false, error: e.message });
+    }
   }
-});
+);
 
 /* ------------------------------------------------------------
  * GRACEFUL SHUTDOWN
@@ -294,6 +407,7 @@ async function gracefulShutdown(signal: string) {
     if (es) es.close();
 
     if (detectionWorker) await detectionWorker.close();
+    await stopMonitorRegistry();
     await detectionQueue.close();
     await connection.quit();
     await prisma.$disconnect();
@@ -315,6 +429,7 @@ async function gracefulShutdown(signal: string) {
 async function startServer() {
   try {
     startStreamConsumer();
+    await startMonitorRegistry();
     startDetectionWorker();
     startBrandIntelWorker();
     //await scheduleVerificationScanner();
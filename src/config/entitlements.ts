@@ -0,0 +1,35 @@
+/**
+ * entitlements.ts — ClientTier feature map
+ * ------------------------------------------------------------
+ *  - BASIC      → detection only
+ *  - PRO        → + automated verification (verifyThreat)
+ *  - ENTERPRISE → + AUTOPILOT posting, brand intelligence scraping
+ *
+ * Tiers are always read fresh from the database by
+ * services/entitlement.service, so upgrades and downgrades
+ * apply to the next job or request without a restart.
+ * ------------------------------------------------------------
+ */
+
+import { ClientTier } from "@prisma/client";
+
+export type Feature =
+  | "DETECTION"
+  | "AUTOMATED_VERIFICATION"
+  | "AUTOPILOT_POSTING"
+  | "BRAND_INTELLIGENCE";
+
+export const TIER_ENTITLEMENTS: Record<ClientTier, readonly Feature[]> = {
+  [ClientTier.BASIC]: ["DETECTION"],
+  [ClientTier.PRO]: ["DETECTION", "AUTOMATED_VERIFICATION"],
+  [ClientTier.ENTERPRISE]: [
+    "DETECTION",
+    "AUTOMATED_VERIFICATION",
+    "AUTOPILOT_POSTING",
+    "BRAND_INTELLIGENCE",
+  ],
+};
+
+export function tierHasFeature(tier: ClientTier, feature: Feature): boolean {
+  return TIER_ENTITLEMENTS[tier].includes(feature);
+}
@@ -0,0 +1,48 @@
+/**
+ * permissions.ts — Role-based access map
+ * ------------------------------------------------------------
+ * Single source of truth for what each UserRole may do.
+ *  - VIEWER  → read dashboards
+ *  - MANAGER → + approve/deploy responses, change threat status,
+ *              tune source domain credibility
+ *  - ADMIN   → + manage brands, monitors, scrape sources, users
+ *
+ * Routers guard each route with `requirePermission(<key>)`.
+ * ------------------------------------------------------------
+ */
+
+import { UserRole } from "@prisma/client";
+
+const ALL_ROLES = [UserRole.VIEWER, UserRole.MANAGER, UserRole.ADMIN] as const;
+const MANAGERS = [UserRole.MANAGER, UserRole.ADMIN] as const;
+const ADMINS = [UserRole.ADMIN] as const;
+
+export const PERMISSIONS = {
+  // Dashboard
+  "dashboard:read": ALL_ROLES,
+
+  // Threats & responses
+  "threats:update": MANAGERS,
+  "threats:verify": MANAGERS,
+  "responses:approve": MANAGERS,
+  "responses:deploy": MANAGERS,
+
+  // Configuration
+  "brands:read": ALL_ROLES,
+  "brands:manage": ADMINS,
+  "monitors:read": ALL_ROLES,
+  "monitors:manage": ADMINS,
+  "scrape-sources:read": ALL_ROLES,
+  "scrape-sources:manage": ADMINS,
+  "source-domains:read": ALL_ROLES,
+  "source-domains:manage": MANAGERS,
+
+  // Team
+  "users:manage": ADMINS,
+} satisfies Record<string, readonly UserRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return (PERMISSIONS[permission] as readonly UserRole[]).includes(role);
+}
@@ -0,0 +1,76 @@
+/**
+ * auth.controller.ts — Authentication API
+ * ------------------------------------------------------------
+ * Routes:
+ *  POST /api/auth/login    → Exchange email/password for tokens
+ *  POST /api/auth/refresh  → Rotate refresh token, new access token
+ *  POST /api/auth/logout   → Revoke refresh token
+ * ------------------------------------------------------------
+ */
+
+import express from "express"
+import { AuthError, login, logout, refresh } from "../services/auth.service"
+
+export const authRouter = express.Router()
+
+function sendError(res: express.Response, err: any) {
+  const status = err instanceof AuthError ? err.status : 500
+  res.status(status).json({ success: false, error: err.message })
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Login
+ * ------------------------------------------------------------ */
+authRouter.post("/login", async (req, res) => {
+  try {
+    const { email, password } = req.body ?? {}
+    if (typeof email !== "string" || typeof password !== "string") {
+      return res
+        .status(400)
+        .json({ success: false, error: "email and password are required" })
+    }
+
+    const data = await login(email, password)
+    res.json({ success: true, data })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 2️⃣ Refresh Access Token
+ * ------------------------------------------------------------ */
+authRouter.post("/refresh", async (req, res) => {
+  try {
+    const { refreshToken } = req.body ?? {}
+    if (typeof refreshToken !== "string") {
+      return res
+        .status(400)
+        .json({ success: false, error: "refreshToken is required" })
+    }
+
+    const data = await refresh(refreshToken)
+    res.json({ success: true, data })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 3️⃣ Logout
+ * ------------------------------------------------------------ */
+authRouter.post("/logout", async (req, res) => {
+  try {
+    const { refreshToken } = req.body ?? {}
+    if (typeof refreshToken !== "string") {
+      return res
+        .status(400)
+        .json({ success: false, error: "refreshToken is required" })
+    }
+
+    await logout(refreshToken)
+    res.json({ success: true })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
@@ -0,0 +1,113 @@
+/**
+ * brand.controller.ts — Brand Management API
+ * ------------------------------------------------------------
+ * Routes (scoped to the caller's Client):
+ *  GET    /api/brands       → List brands
+ *  GET    /api/brands/:id   → Brand detail (reputation, threats, monitors)
+ *  POST   /api/brands       → Create brand                (ADMIN)
+ *  PATCH  /api/brands/:id   → Update brand                (ADMIN)
+ *  DELETE /api/brands/:id   → Soft-deactivate brand       (ADMIN)
+ * ------------------------------------------------------------
+ */
+
+import { Prisma } from "@prisma/client"
+import express from "express"
+import { prisma } from "../db/client"
+import { requirePermission } from "../middleware/auth.middleware"
+import {
+  createBrand,
+  deactivateBrand,
+  getBrandDetail,
+  updateBrand,
+  validateBrandInput,
+} from "../services/brand.service"
+
+export const brandRouter = express.Router()
+
+function sendError(res: express.Response, err: any) {
+  if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+    return res.status(409).json({ success: false, error: "You already have a brand with this name" })
+  }
+  res.status(500).json({ success: false, error: err.message })
+}
+
+function findOwnedBrand(clientId: string, id: string) {
+  return prisma.brand.findFirst({ where: { id, clientId }, select: { id: true } })
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ List Brands
+ * ------------------------------------------------------------ */
+brandRouter.get("/", requirePermission("brands:read"), async (req, res) => {
+  try {
+    const brands = await prisma.brand.findMany({
+      where: { clientId: req.user!.clientId },
+      include: { _count: { select: { monitors: true, scrapeSources: true } } },
+      orderBy: { createdAt: "asc" },
+    })
+    res.json({ success: true, data: brands })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 2️⃣ Brand Detail
+ * ------------------------------------------------------------ */
+brandRouter.get("/:id", requirePermission("brands:read"), async (req, res) => {
+  try {
+    const brand = await getBrandDetail(req.user!.clientId, req.params.id)
+    if (!brand) return res.status(404).json({ success: false, error: "Brand not found" })
+    res.json({ success: true, data: brand })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 3️⃣ Create Brand
+ * ------------------------------------------------------------ */
+brandRouter.post("/", requirePermission("brands:manage"), async (req, res) => {
+  try {
+    const { data, errors } = validateBrandInput(req.body, false)
+    if (errors.length) return res.status(400).json({ success: false, errors })
+
+    const brand = await createBrand(req.user!.clientId, data)
+    res.status(201).json({ success: true, data: brand })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 4️⃣ Update Brand
+ * ------------------------------------------------------------ */
+brandRouter.patch("/:id", requirePermission("brands:manage"), async (req, res) => {
+  try {
+    const owned = await findOwnedBrand(req.user!.clientId, req.params.id)
+    if (!owned) return res.status(404).json({ success: false, error: "Brand not found" })
+
+    const { data, errors } = validateBrandInput(req.body, true)
+    if (errors.length) return res.status(400).json({ success: false, errors })
+
+    const brand = await updateBrand(owned.id, data)
+    res.json({ success: true, data: brand })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 5️⃣ Soft-Deactivate Brand (pauses monitors & scrape sources)
+ * ------------------------------------------------------------ */
+brandRouter.delete("/:id", requirePermission("brands:manage"), async (req, res) => {
+  try {
+    const owned = await findOwnedBrand(req.user!.clientId, req.params.id)
+    if (!owned) return res.status(404).json({ success: false, error: "Brand not found" })
+
+    const brand = await deactivateBrand(owned.id)
+    res.json({ success: true, data: brand })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
@@ -1,11 +1,18 @@
 /**
  * dashboard.controller.ts — Unified Dashboard API
  * ------------------------------------------------------------
+ * All routes are scoped to the caller's Client; pass
+ * `?brandId=` to narrow to one brand (404 if not owned).
+ * Threats, metrics, sentiment and trending also accept
+ * `?language=en|pcm|yo|ha|ig` (language of the post).
+ *
  * Routes:
  *  GET  /api/dashboard/threats           → Threat list
  *  GET  /api/dashboard/metrics           → Key metrics summary
  *  GET  /api/dashboard/sentiment         → Average sentiment
  *  GET  /api/dashboard/trending          → Trending topics
+ *  GET  /api/dashboard/usage             → Monthly post usage vs limit
+ *  GET  /api/dashboard/entitlements      → Tier & enabled features
  *  PATCH /api/dashboard/threats/:id/address → Mark threat addressed
  *  POST /api/dashboard/responses/deploy  → Deploy AI response
  * ------------------------------------------------------------
@@ -13,6 +20,14 @@
 
 import { PrismaClient, ThreatStatus } from "@prisma/client"
 import express from "express"
+import { requirePermission } from "../middleware/auth.middleware"
+import {
+  findThreatForClient,
+  resolveBrandScope,
+} from "../services/tenant.service"
+import { getUsage } from "../services/usage.service"
+import { getClientEntitlements } from "../services/entitlement.service"
+import { LANGUAGES, parseLanguage } from "../services/language"
 
 export const dashboardRouter = express.Router()
 const prisma = new PrismaClient()
@@ -29,17 +44,45 @@ function getTimeFilter(range?: string) {
   return start
 }
 
+/* ------------------------------------------------------------
+ * 🧩 Helper — Tenant Brand Scope (sends 404 when not owned)
+ * ------------------------------------------------------------ */
+async function getBrandScope(req: express.Request, res: express.Response) {
+  const scope = await resolveBrandScope(req.user!.clientId, req.query.brandId)
+  if (!scope) res.status(404).json({ success: false, error: "Brand not found" })
+  return scope
+}
+
+/* ------------------------------------------------------------
+ * 🧩 Helper — Post Language Filter (sends 400 when unknown)
+ * ------------------------------------------------------------ */
+function getLanguageFilter(req: express.Request, res: express.Response) {
+  if (req.query.language === undefined) return {}
+  const language = parseLanguage(req.query.language)
+  if (!language) {
+    res.status(400).json({ success: false, error: `language must be one of ${LANGUAGES.join(", ")}` })
+    return null
+  }
+  return { language }
+}
+
 /* ------------------------------------------------------------
  * 1️⃣ Get Threats (filtered by time range)
  * ------------------------------------------------------------ */
-dashboardRouter.get("/threats", async (req, res) => {
+dashboardRouter.get("/threats", requirePermission("dashboard:read"), async (req, res) => {
   try {
     const { timeRange } = req.query
     const from = getTimeFilter(timeRange as string)
+    const brand = await getBrandScope(req, res)
+    if (!brand) return
+    const lang = getLanguageFilter(req, res)
+    if (!lang) return
 
     const threats = await prisma.threat.findMany({
       where: {
+        brand,
         detectedAt: { gte: from },
+        detectedPost: lang,
       },
       include: {
         detectedPost: true,
@@ -50,7 +93,7 @@ dashboardRouter.get("/threats", async (req, res) => {
     })
 
     const postsAnalyzed = await prisma.detectedPost.count({
-      where: { capturedAt: { gte: from } },
+      where: { brand, capturedAt: { gte: from }, ...lang },
     })
 
     const activeThreats = threats.filter(
@@ -69,28 +112,34 @@ dashboardRouter.get("/threats", async (req, res) => {
 /* ------------------------------------------------------------
  * 2️⃣ Dashboard Metrics Overview
  * ------------------------------------------------------------ */
-dashboardRouter.get("/metrics", async (req, res) => {
+dashboardRouter.get("/metrics", requirePermission("dashboard:read"), async (req, res) => {
   try {
     const { timeRange } = req.query
     const from = getTimeFilter(timeRange as string)
+    const brand = await getBrandScope(req, res)
+    if (!brand) return
+    const lang = getLanguageFilter(req, res)
+    if (!lang) return
 
     const [postsAnalyzed, activeThreats, responses, sentiment] =
       await Promise.all([
         prisma.detectedPost.count({
-          where: { capturedAt: { gte: from } },
+          where: { brand, capturedAt: { gte: from }, ...lang },
         }),
         prisma.threat.count({
           where: {
+            brand,
             detectedAt: { gte: from },
             status: { not: ThreatStatus.RESOLVED },
+            detectedPost: lang,
           },
         }),
         prisma.response.count({
-          where: { status: "POSTED" },
+          where: { status: "POSTED", threat: { brand, detectedPost: lang } },
         }),
         prisma.detectedPost.aggregate({
           _avg: { sentimentPolarity: true },
-          where: { capturedAt: { gte: from } },
+          where: { brand, capturedAt: { gte: from }, ...lang },
         }),
       ])
 
@@ -111,14 +160,18 @@ dashboardRouter.get("/metrics", async (req, res) => {
 /* ------------------------------------------------------------
  * 3️⃣ Average Sentiment Gauge
  * ------------------------------------------------------------ */
-dashboardRouter.get("/sentiment", async (req, res) => {
+dashboardRouter.get("/sentiment", requirePermission("dashboard:read"), async (req, res) => {
   try {
     const { timeRange } = req.query
     const from = getTimeFilter(timeRange as string)
+    const brand = await getBrandScope(req, res)
+    if (!brand) return
+    const lang = getLanguageFilter(req, res)
+    if (!lang) return
 
     const result = await prisma.detectedPost.aggregate({
       _avg: { sentimentPolarity: true },
-      where: { capturedAt: { gte: from } },
+      where: { brand, capturedAt: { gte: from }, ...lang },
     })
 
     res.json({
@@ -133,13 +186,17 @@ dashboardRouter.get("/sentiment", async (req, res) => {
 /* ------------------------------------------------------------
  * 4️⃣ Trending Topics / Hashtags
  * ------------------------------------------------------------ */
-dashboardRouter.get("/trending", async (req, res) => {
+dashboardRouter.get("/trending", requirePermission("dashboard:read"), async (req, res) => {
   try {
     const { timeRange, limit = 10 } = req.query
     const from = getTimeFilter(timeRange as string)
+    const brand = await getBrandScope(req, res)
+    if (!brand) return
+    const lang = getLanguageFilter(req, res)
+    if (!lang) return
 
     const posts = await prisma.detectedPost.findMany({
-      where: { capturedAt: { gte: from } },
+      where: { brand, capturedAt: { gte: from }, ...lang },
       select: { matchedKeywords: true },
     })
 
@@ -165,14 +222,43 @@ dashboardRouter.get("/trending", async (req, res) => {
   }
 })
 
+/* ------------------------------------------------------------
+ * 📊 Subscription Usage (posts analyzed this month vs limit)
+ * ------------------------------------------------------------ */
+dashboardRouter.get("/usage", requirePermission("dashboard:read"), async (req, res) => {
+  try {
+    const usage = await getUsage(req.user!.clientId)
+    res.json({ success: true, data: usage })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
+
+/* ------------------------------------------------------------
+ * 🎟️ Plan Entitlements (tier → enabled features)
+ * ------------------------------------------------------------ */
+dashboardRouter.get("/entitlements", requirePermission("dashboard:read"), async (req, res) => {
+  try {
+    const entitlements = await getClientEntitlements(req.user!.clientId)
+    res.json({ success: true, data: entitlements })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
+
 /* ------------------------------------------------------------
  * 5️⃣ Mark Threat as Addressed
  * ------------------------------------------------------------ */
-dashboardRouter.patch("/threats/:id/address", async (req, res) => {
+dashboardRouter.patch("/threats/:id/address", requirePermission("threats:update"), async (req, res) => {
   try {
     const { id } = req.params
     const { responsePostId } = req.body
 
+    const owned = await findThreatForClient(req.user!.clientId, id)
+    if (!owned) {
+      return res.status(404).json({ success: false, error: "Threat not found" })
+    }
+
     const threat = await prisma.threat.update({
       where: { id },
       data: {
@@ -207,9 +293,17 @@ dashboardRouter.patch("/threats/:id/address", async (req, res) => {
 /* ------------------------------------------------------------
  * 6️⃣ Deploy AI Response (manual trigger)
  * ------------------------------------------------------------ */
-dashboardRouter.post("/responses/deploy", async (req, res) => {
+dashboardRouter.post("/responses/deploy", requirePermission("responses:deploy"), async (req, res) => {
   try {
     const { threatId, text, platform = "TWITTER" } = req.body
+
+    const owned =
+      typeof threatId === "string" &&
+      (await findThreatForClient(req.user!.clientId, threatId))
+    if (!owned) {
+      return res.status(404).json({ success: false, error: "Threat not found" })
+    }
+
     const response = await prisma.response.create({
       data: {
         threatId,
@@ -0,0 +1,140 @@
+/**
+ * monitor.controller.ts — Monitor Management API
+ * ------------------------------------------------------------
+ * Routes (scoped to the caller's Client):
+ *  GET    /api/brands/:brandId/monitors      → List monitors
+ *  GET    /api/brands/:brandId/monitors/:id  → Monitor detail
+ *  POST   /api/brands/:brandId/monitors      → Create monitor     (ADMIN)
+ *  PATCH  /api/brands/:brandId/monitors/:id  → Update monitor     (ADMIN)
+ *  DELETE /api/brands/:brandId/monitors/:id  → Deactivate monitor (ADMIN)
+ *
+ * Writes are pushed to running detection workers (live reload).
+ * ------------------------------------------------------------
+ */
+
+import { Prisma } from "@prisma/client"
+import express from "express"
+import { prisma } from "../db/client"
+import { requirePermission } from "../middleware/auth.middleware"
+import {
+  createMonitor,
+  deactivateMonitor,
+  updateMonitor,
+  validateMonitorInput,
+} from "../services/monitor.service"
+
+export const monitorRouter = express.Router({ mergeParams: true })
+
+type MonitorParams = { brandId: string; id?: string }
+
+function sendError(res: express.Response, err: any) {
+  if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+    return res.status(409).json({ success: false, error: "This brand already has a monitor with this name" })
+  }
+  res.status(500).json({ success: false, error: err.message })
+}
+
+/* ------------------------------------------------------------
+ * 🧩 Helper — resolve brand (and monitor) within the tenant
+ * ------------------------------------------------------------ */
+async function findOwned(req: express.Request<MonitorParams>) {
+  const brand = await prisma.brand.findFirst({
+    where: { id: req.params.brandId, clientId: req.user!.clientId },
+    select: { id: true, isActive: true },
+  })
+  if (!brand || !req.params.id) return { brand, monitor: null }
+
+  const monitor = await prisma.monitor.findFirst({
+    where: { id: req.params.id, brandId: brand.id },
+  })
+  return { brand, monitor }
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ List Monitors
+ * ------------------------------------------------------------ */
+monitorRouter.get("/", requirePermission("monitors:read"), async (req: express.Request<MonitorParams>, res) => {
+  try {
+    const { brand } = await findOwned(req)
+    if (!brand) return res.status(404).json({ success: false, error: "Brand not found" })
+
+    const monitors = await prisma.monitor.findMany({
+      where: { brandId: brand.id },
+      include: { _count: { select: { detectedPosts: true, threats: true } } },
+      orderBy: { createdAt: "asc" },
+    })
+    res.json({ success: true, data: monitors })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 2️⃣ Monitor Detail
+ * ------------------------------------------------------------ */
+monitorRouter.get("/:id", requirePermission("monitors:read"), async (req: express.Request<MonitorParams>, res) => {
+  try {
+    const { monitor } = await findOwned(req)
+    if (!monitor) return res.status(404).json({ success: false, error: "Monitor not found" })
+    res.json({ success: true, data: monitor })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 3️⃣ Create Monitor
+ * ------------------------------------------------------------ */
+monitorRouter.post("/", requirePermission("monitors:manage"), async (req: express.Request<MonitorParams>, res) => {
+  try {
+    const { brand } = await findOwned(req)
+    if (!brand) return res.status(404).json({ success: false, error: "Brand not found" })
+
+    const { data, errors } = validateMonitorInput(req.body)
+    if (!brand.isActive && data.isActive !== false) {
+      errors.push("Brand is inactive — create the monitor with isActive: false or reactivate the brand")
+    }
+    if (errors.length) return res.status(400).json({ success: false, errors })
+
+    const monitor = await createMonitor(brand.id, data)
+    res.status(201).json({ success: true, data: monitor })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 4️⃣ Update Monitor
+ * ------------------------------------------------------------ */
+monitorRouter.patch("/:id", requirePermission("monitors:manage"), async (req: express.Request<MonitorParams>, res) => {
+  try {
+    const { brand, monitor } = await findOwned(req)
+    if (!brand || !monitor) return res.status(404).json({ success: false, error: "Monitor not found" })
+
+    const { data, errors } = validateMonitorInput(req.body, monitor)
+    if (!brand.isActive && data.isActive === true) {
+      errors.push("Brand is inactive — reactivate the brand first")
+    }
+    if (errors.length) return res.status(400).json({ success: false, errors })
+
+    const updated = await updateMonitor(monitor.id, data)
+    res.json({ success: true, data: updated })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 5️⃣ Deactivate Monitor
+ * ------------------------------------------------------------ */
+monitorRouter.delete("/:id", requirePermission("monitors:manage"), async (req: express.Request<MonitorParams>, res) => {
+  try {
+    const { monitor } = await findOwned(req)
+    if (!monitor) return res.status(404).json({ success: false, error: "Monitor not found" })
+
+    const updated = await deactivateMonitor(monitor.id)
+    res.json({ success: true, data: updated })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
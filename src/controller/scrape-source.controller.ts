@@ -0,0 +1,301 @@
+/**
+ * scrape-source.controller.ts — Scrape Source API
+ * ------------------------------------------------------------
+ * Routes (scoped to the caller's Client):
+ *  GET    /api/scrape-sources            → List sources with crawl schedule
+ *  GET    /api/scrape-sources/overdue    → Sources past their due time
+ *  GET    /api/scrape-sources/runs       → Scrape run history (?sourceId=&status=&limit=)
+ *  GET    /api/scrape-sources/failing    → Sources whose latest run FAILED or came back EMPTY
+ *  POST   /api/scrape-sources/preview    → Dry-run a proposed config  (ADMIN)
+ *  GET    /api/scrape-sources/:id        → Source detail
+ *  POST   /api/scrape-sources            → Create source              (ADMIN)
+ *  PATCH  /api/scrape-sources/:id        → Update source              (ADMIN)
+ *  DELETE /api/scrape-sources/:id        → Soft-deactivate source     (ADMIN)
+ *  POST   /api/scrape-sources/:id/crawl  → Queue an immediate crawl   (ADMIN)
+ *
+ * Optional ?brandId= narrows the list / report routes to one brand.
+ * ------------------------------------------------------------
+ */
+
+import express from "express"
+import { Prisma, ScrapeRunStatus } from "@prisma/client"
+import { prisma } from "../db/client"
+import { requirePermission } from "../middleware/auth.middleware"
+import { resolveBrandScope } from "../services/tenant.service"
+import { brandIntelQueue } from "../queues/brand-intel.queue"
+import { crawlDueAt, enqueueCrawlNow, getOverdueSources } from "../services/crawl-scheduler.service"
+import { brandHasFeature } from "../services/entitlement.service"
+import { getFailingSources, listScrapeRuns } from "../services/scrape-run.service"
+import {
+  createScrapeSource,
+  deactivateScrapeSource,
+  searchSourceViolations,
+  sourceHostErrors,
+  updateScrapeSource,
+  validateScrapeSourceInput,
+} from "../services/scrape-source.service"
+import { previewSource, SEARCH_SOURCE_TYPE } from "../services/source-crawler.service"
+
+export const scrapeSourceRouter = express.Router()
+
+function sendError(res: express.Response, err: any) {
+  if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+    return res.status(409).json({ success: false, error: "This brand already has a scrape source with this name" })
+  }
+  res.status(500).json({ success: false, error: err.message })
+}
+
+function findOwnedSource(clientId: string, id: string) {
+  return prisma.scrapeSource.findFirst({ where: { id, brand: { clientId } }, include: { brand: true } })
+}
+
+async function getBrandScope(req: express.Request, res: express.Response) {
+  const brand = await resolveBrandScope(req.user!.clientId, req.query.brandId)
+  if (!brand) res.status(404).json({ success: false, error: "Brand not found" })
+  return brand
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ List Sources
+ * ------------------------------------------------------------ */
+scrapeSourceRouter.get("/", requirePermission("scrape-sources:read"), async (req, res) => {
+  try {
+    const brand = await getBrandScope(req, res)
+    if (!brand) return
+
+    const sources = await prisma.scrapeSource.findMany({
+      where: { brand },
+      include: { _count: { select: { scrapedItems: true } } },
+      orderBy: { createdAt: "asc" },
+    })
+
+    const now = Date.now()
+    const data = sources.map((source) => {
+      const dueAt = crawlDueAt(source, source.createdAt)
+      return { ...source, dueAt, isDue: source.isActive && dueAt.getTime() <= now }
+    })
+    res.json({ success: true, data })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
+
+/* ------------------------------------------------------------
+ * 2️⃣ Overdue Sources
+ * ------------------------------------------------------------ */
+scrapeSourceRouter.get("/overdue", requirePermission("scrape-sources:read"), async (req, res) => {
+  try {
+    const brand = await getBrandScope(req, res)
+    if (!brand) return
+
+    const overdue = await getOverdueSources({ brand })
+    res.json({ success: true, data: overdue })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
+
+/* ------------------------------------------------------------
+ * 3️⃣ Run History
+ * ------------------------------------------------------------ */
+scrapeSourceRouter.get("/runs", requirePermission("scrape-sources:read"), async (req, res) => {
+  try {
+    const brand = await getBrandScope(req, res)
+    if (!brand) return
+
+    const { sourceId, status } = req.query
+    if (status !== undefined && !Object.values(ScrapeRunStatus).includes(status as ScrapeRunStatus)) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of ${Object.values(ScrapeRunStatus).join(", ")}`,
+      })
+    }
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200)
+
+    const runs = await listScrapeRuns(
+      {
+        source: { brand, ...(typeof sourceId === "string" && { id: sourceId }) },
+        ...(status !== undefined && { status: status as ScrapeRunStatus }),
+      },
+      limit
+    )
+    res.json({ success: true, data: runs })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
+
+/* ------------------------------------------------------------
+ * 4️⃣ Failing Sources
+ * ------------------------------------------------------------ */
+scrapeSourceRouter.get("/failing", requirePermission("scrape-sources:read"), async (req, res) => {
+  try {
+    const brand = await getBrandScope(req, res)
+    if (!brand) return
+
+    const failing = await getFailingSources({ brand })
+    res.json({ success: true, data: failing })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
+
+/* ------------------------------------------------------------
+ * 5️⃣ Preview (nothing is stored)
+ * ------------------------------------------------------------ */
+/**
+ * Body: any source fields, plus `sourceId` to start from an existing
+ * source (fields override it) or `brandId` for a new one, and
+ * `samples` (1–5, default 3).
+ */
+scrapeSourceRouter.post("/preview", requirePermission("scrape-sources:manage"), async (req, res) => {
+  try {
+    const { data, errors } = validateScrapeSourceInput(req.body, true)
+    if (errors.length) return res.status(400).json({ success: false, errors })
+
+    const clientId = req.user!.clientId
+    const { sourceId, brandId } = req.body ?? {}
+    const existing = typeof sourceId === "string" ? await findOwnedSource(clientId, sourceId) : null
+    if (sourceId !== undefined && !existing) {
+      return res.status(404).json({ success: false, error: "Scrape source not found" })
+    }
+    if (existing?.type === SEARCH_SOURCE_TYPE) {
+      return res.status(400).json({ success: false, error: "Search sources have no listing pages to preview" })
+    }
+
+    const brand = existing?.brand ?? (typeof brandId === "string"
+      ? await prisma.brand.findFirst({ where: { id: brandId, clientId } })
+      : null)
+    if (!brand) return res.status(404).json({ success: false, error: "Brand not found" })
+
+    const config = {
+      name: existing?.name ?? data.name ?? "Preview",
+      baseUrl: data.baseUrl ?? existing?.baseUrl,
+      entryPaths: data.entryPaths ?? existing?.entryPaths ?? [],
+      type: data.type ?? existing?.type ?? "news",
+      cssSelector: data.cssSelector !== undefined ? data.cssSelector : existing?.cssSelector ?? null,
+      rssUrl: data.rssUrl !== undefined ? data.rssUrl : existing?.rssUrl ?? null,
+      fetchFullContent: data.fetchFullContent ?? existing?.fetchFullContent ?? true,
+    }
+    if (!config.baseUrl) return res.status(400).json({ success: false, errors: ["baseUrl is required"] })
+    const hostErrors = await sourceHostErrors(config)
+    if (hostErrors.length) return res.status(400).json({ success: false, errors: hostErrors })
+
+    const samples = Math.min(Math.max(Number(req.body.samples) || 3, 1), 5)
+    const preview = await previewSource({ ...config, baseUrl: config.baseUrl }, brand, samples)
+    res.json({ success: true, data: preview })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 6️⃣ Source Detail
+ * ------------------------------------------------------------ */
+scrapeSourceRouter.get("/:id", requirePermission("scrape-sources:read"), async (req, res) => {
+  try {
+    const source = await prisma.scrapeSource.findFirst({
+      where: { id: req.params.id, brand: { clientId: req.user!.clientId } },
+      include: {
+        _count: { select: { scrapedItems: true } },
+        runs: { orderBy: { startedAt: "desc" }, take: 5 },
+      },
+    })
+    if (!source) return res.status(404).json({ success: false, error: "Scrape source not found" })
+
+    const dueAt = crawlDueAt(source, source.createdAt)
+    res.json({ success: true, data: { ...source, dueAt, isDue: source.isActive && dueAt.getTime() <= Date.now() } })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 7️⃣ Create Source
+ * ------------------------------------------------------------ */
+scrapeSourceRouter.post("/", requirePermission("scrape-sources:manage"), async (req, res) => {
+  try {
+    const { data, errors } = validateScrapeSourceInput(req.body, false)
+    if (errors.length) return res.status(400).json({ success: false, errors })
+
+    const brand = await prisma.brand.findFirst({
+      where: { id: data.brandId, clientId: req.user!.clientId },
+      select: { id: true },
+    })
+    if (!brand) return res.status(404).json({ success: false, error: "Brand not found" })
+
+    const hostErrors = await sourceHostErrors(data)
+    if (hostErrors.length) return res.status(400).json({ success: false, errors: hostErrors })
+
+    const source = await createScrapeSource(data)
+    res.status(201).json({ success: true, data: source })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 8️⃣ Update Source
+ * ------------------------------------------------------------ */
+scrapeSourceRouter.patch("/:id", requirePermission("scrape-sources:manage"), async (req, res) => {
+  try {
+    const owned = await findOwnedSource(req.user!.clientId, req.params.id)
+    if (!owned) return res.status(404).json({ success: false, error: "Scrape source not found" })
+
+    const { data, errors } = validateScrapeSourceInput(req.body, true)
+    if (errors.length) return res.status(400).json({ success: false, errors })
+
+    const locked = searchSourceViolations(owned, data)
+    if (locked.length) {
+      return res.status(400).json({
+        success: false,
+        error: `Search sources follow the brand's search settings; cannot change ${locked.join(", ")}`,
+      })
+    }
+
+    const hostErrors = await sourceHostErrors(data)
+    if (hostErrors.length) return res.status(400).json({ success: false, errors: hostErrors })
+
+    const source = await updateScrapeSource(owned.id, data)
+    res.json({ success: true, data: source })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 9️⃣ Soft-Deactivate Source (items & run history are kept)
+ * ------------------------------------------------------------ */
+scrapeSourceRouter.delete("/:id", requirePermission("scrape-sources:manage"), async (req, res) => {
+  try {
+    const owned = await findOwnedSource(req.user!.clientId, req.params.id)
+    if (!owned) return res.status(404).json({ success: false, error: "Scrape source not found" })
+
+    const source = await deactivateScrapeSource(owned.id)
+    res.json({ success: true, data: source })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 🔟 Crawl Now
+ * ------------------------------------------------------------ */
+scrapeSourceRouter.post("/:id/crawl", requirePermission("scrape-sources:manage"), async (req, res) => {
+  try {
+    const owned = await findOwnedSource(req.user!.clientId, req.params.id)
+    if (!owned) return res.status(404).json({ success: false, error: "Scrape source not found" })
+
+    if (!owned.isActive || !owned.brand.isActive) {
+      return res.status(409).json({ success: false, error: "Scrape source is paused" })
+    }
+    if (!(await brandHasFeature(owned.brandId, "BRAND_INTELLIGENCE"))) {
+      return res.status(403).json({ success: false, error: "Your plan does not include BRAND_INTELLIGENCE" })
+    }
+
+    const job = await enqueueCrawlNow(brandIntelQueue, owned.id)
+    res.status(202).json({ success: true, data: job })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
@@ -0,0 +1,68 @@
+/**
+ * scraped-item.controller.ts — Scraped content history
+ * ------------------------------------------------------------
+ * Routes (scoped to the caller's Client):
+ *  GET /api/scraped-items/:id/versions          → Version history
+ *  GET /api/scraped-items/:id/diff?from=&to=    → Line diff between versions
+ *                                                 (defaults: previous → latest)
+ *  GET /api/scraped-items/:id/duplicates        → Near-duplicate cluster
+ *                                                 (syndicated copies)
+ * ------------------------------------------------------------
+ */
+
+import express from "express"
+import { requirePermission } from "../middleware/auth.middleware"
+import { getClusterWithItems } from "../services/article-cluster.service"
+import { diffVersions, findItemForClient, listVersions } from "../services/scraped-item.service"
+
+export const scrapedItemRouter = express.Router()
+
+/* ------------------------------------------------------------
+ * 1️⃣ Version History
+ * ------------------------------------------------------------ */
+scrapedItemRouter.get("/:id/versions", requirePermission("scrape-sources:read"), async (req, res) => {
+  try {
+    const item = await findItemForClient(req.user!.clientId, req.params.id)
+    if (!item) return res.status(404).json({ success: false, error: "Scraped item not found" })
+
+    const versions = await listVersions(item.id)
+    res.json({ success: true, data: { item, versions } })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
+
+/* ------------------------------------------------------------
+ * 2️⃣ Version Diff
+ * ------------------------------------------------------------ */
+scrapedItemRouter.get("/:id/diff", requirePermission("scrape-sources:read"), async (req, res) => {
+  try {
+    const item = await findItemForClient(req.user!.clientId, req.params.id)
+    if (!item) return res.status(404).json({ success: false, error: "Scraped item not found" })
+
+    const from = typeof req.query.from === "string" ? req.query.from : undefined
+    const to = typeof req.query.to === "string" ? req.query.to : undefined
+
+    const result = await diffVersions(item.id, from, to)
+    if (!result) return res.status(404).json({ success: false, error: "Version not found" })
+    res.json({ success: true, data: { item, ...result } })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
+
+/* ------------------------------------------------------------
+ * 3️⃣ Near-Duplicates
+ * ------------------------------------------------------------ */
+scrapedItemRouter.get("/:id/duplicates", requirePermission("scrape-sources:read"), async (req, res) => {
+  try {
+    const item = await findItemForClient(req.user!.clientId, req.params.id)
+    if (!item) return res.status(404).json({ success: false, error: "Scraped item not found" })
+
+    // unclustered: too short to fingerprint, or not fetched since clustering was added
+    const cluster = item.clusterId ? await getClusterWithItems(item.clusterId) : null
+    res.json({ success: true, data: { item, cluster } })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
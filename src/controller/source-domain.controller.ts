@@ -0,0 +1,121 @@
+/**
+ * source-domain.controller.ts — Domain Credibility Registry API
+ * ------------------------------------------------------------
+ * Routes (scoped to the caller's Client):
+ *  GET    /api/source-domains              → Registry + built-in defaults
+ *  GET    /api/source-domains/lookup?url=  → Effective rating for a URL
+ *  POST   /api/source-domains              → Add domain      (MANAGER)
+ *  PATCH  /api/source-domains/:id          → Update domain   (MANAGER)
+ *  DELETE /api/source-domains/:id          → Remove domain   (MANAGER)
+ *
+ * Changes apply to new scrapes and to verification immediately.
+ * ------------------------------------------------------------
+ */
+
+import { Prisma } from "@prisma/client"
+import express from "express"
+import { prisma } from "../db/client"
+import { requirePermission } from "../middleware/auth.middleware"
+import {
+  createSourceDomain,
+  DEFAULT_SOURCE_DOMAINS,
+  deleteSourceDomain,
+  getDomainRegistry,
+  rateDomain,
+  updateSourceDomain,
+  validateSourceDomainInput,
+} from "../services/source-domain.service"
+
+export const sourceDomainRouter = express.Router()
+
+function sendError(res: express.Response, err: any) {
+  if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+    return res.status(409).json({ success: false, error: "This domain is already in the registry" })
+  }
+  res.status(500).json({ success: false, error: err.message })
+}
+
+function findOwned(clientId: string, id: string) {
+  return prisma.sourceDomain.findFirst({ where: { id, clientId }, select: { id: true } })
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ List Registry
+ * ------------------------------------------------------------ */
+sourceDomainRouter.get("/", requirePermission("source-domains:read"), async (req, res) => {
+  try {
+    const domains = await prisma.sourceDomain.findMany({
+      where: { clientId: req.user!.clientId },
+      orderBy: [{ credibility: "desc" }, { domain: "asc" }],
+    })
+    const overridden = new Set(domains.map((d) => d.domain))
+    const defaults = DEFAULT_SOURCE_DOMAINS.map((d) => ({ ...d, overridden: overridden.has(d.domain) }))
+
+    res.json({ success: true, data: { domains, defaults } })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 2️⃣ Lookup (effective rating)
+ * ------------------------------------------------------------ */
+sourceDomainRouter.get("/lookup", requirePermission("source-domains:read"), async (req, res) => {
+  try {
+    if (typeof req.query.url !== "string" || !req.query.url) {
+      return res.status(400).json({ success: false, error: "url is required" })
+    }
+    const registry = await getDomainRegistry(req.user!.clientId)
+    res.json({ success: true, data: rateDomain(registry, req.query.url) })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 3️⃣ Add Domain
+ * ------------------------------------------------------------ */
+sourceDomainRouter.post("/", requirePermission("source-domains:manage"), async (req, res) => {
+  try {
+    const { data, errors } = validateSourceDomainInput(req.body, false)
+    if (errors.length) return res.status(400).json({ success: false, errors })
+
+    const domain = await createSourceDomain(req.user!.clientId, data)
+    res.status(201).json({ success: true, data: domain })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 4️⃣ Update Domain
+ * ------------------------------------------------------------ */
+sourceDomainRouter.patch("/:id", requirePermission("source-domains:manage"), async (req, res) => {
+  try {
+    const owned = await findOwned(req.user!.clientId, req.params.id)
+    if (!owned) return res.status(404).json({ success: false, error: "Domain not found" })
+
+    const { data, errors } = validateSourceDomainInput(req.body, true)
+    if (errors.length) return res.status(400).json({ success: false, errors })
+
+    const domain = await updateSourceDomain(req.user!.clientId, owned.id, data)
+    res.json({ success: true, data: domain })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
+
+/* ------------------------------------------------------------
+ * 5️⃣ Remove Domain (falls back to defaults)
+ * ------------------------------------------------------------ */
+sourceDomainRouter.delete("/:id", requirePermission("source-domains:manage"), async (req, res) => {
+  try {
+    const owned = await findOwned(req.user!.clientId, req.params.id)
+    if (!owned) return res.status(404).json({ success: false, error: "Domain not found" })
+
+    await deleteSourceDomain(req.user!.clientId, owned.id)
+    res.json({ success: true })
+  } catch (err: any) {
+    sendError(res, err)
+  }
+})
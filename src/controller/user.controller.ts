@@ -0,0 +1,187 @@
+/**
+ * user.controller.ts — Team / User Management API (ADMIN only)
+ * ------------------------------------------------------------
+ * Routes (scoped to the caller's Client):
+ *  GET    /api/users       → List users
+ *  POST   /api/users       → Create user
+ *  PATCH  /api/users/:id   → Update name, role, status or password
+ *  DELETE /api/users/:id   → Deactivate user
+ * ------------------------------------------------------------
+ */
+
+import { UserRole } from "@prisma/client"
+import bcrypt from "bcrypt"
+import express from "express"
+import { prisma } from "../db/client"
+import { requirePermission } from "../middleware/auth.middleware"
+
+export const userRouter = express.Router()
+
+userRouter.use(requirePermission("users:manage"))
+
+// Never expose passwordHash
+const userSelect = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+  isActive: true,
+  emailNotifications: true,
+  lastLoginAt: true,
+  createdAt: true,
+} as const
+
+function isRole(value: unknown): value is UserRole {
+  return Object.values(UserRole).includes(value as UserRole)
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ List Users
+ * ------------------------------------------------------------ */
+userRouter.get("/", async (req, res) => {
+  try {
+    const users = await prisma.user.findMany({
+      where: { clientId: req.user!.clientId },
+      select: userSelect,
+      orderBy: { createdAt: "asc" },
+    })
+    res.json({ success: true, data: users })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
+
+/* ------------------------------------------------------------
+ * 2️⃣ Create User
+ * ------------------------------------------------------------ */
+userRouter.post("/", async (req, res) => {
+  try {
+    const { email, password, firstName, lastName, role = UserRole.VIEWER } = req.body ?? {}
+
+    if (
+      typeof email !== "string" ||
+      typeof password !== "string" ||
+      typeof firstName !== "string" ||
+      typeof lastName !== "string"
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "email, password, firstName and lastName are required",
+      })
+    }
+    if (password.length < 8) {
+      return res
+        .status(400)
+        .json({ success: false, error: "password must be at least 8 characters" })
+    }
+    if (!isRole(role)) {
+      return res.status(400).json({ success: false, error: `Invalid role: ${role}` })
+    }
+
+    const existing = await prisma.user.findUnique({ where: { email: email.trim() } })
+    if (existing) {
+      return res.status(409).json({ success: false, error: "Email already in use" })
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        clientId: req.user!.clientId,
+        email: email.trim(),
+        passwordHash: await bcrypt.hash(password, 10),
+        firstName,
+        lastName,
+        role,
+      },
+      select: userSelect,
+    })
+
+    res.status(201).json({ success: true, data: user })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
+
+/* ------------------------------------------------------------
+ * 3️⃣ Update User
+ * ------------------------------------------------------------ */
+userRouter.patch("/:id", async (req, res) => {
+  try {
+    const { id } = req.params
+    const { firstName, lastName, role, isActive, password } = req.body ?? {}
+
+    const user = await prisma.user.findFirst({
+      where: { id, clientId: req.user!.clientId },
+    })
+    if (!user) return res.status(404).json({ success: false, error: "User not found" })
+
+    if (role !== undefined && !isRole(role)) {
+      return res.status(400).json({ success: false, error: `Invalid role: ${role}` })
+    }
+    if (password !== undefined && (typeof password !== "string" || password.length < 8)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "password must be at least 8 characters" })
+    }
+
+    // Prevent an admin from locking themselves out
+    if (id === req.user!.id && ((role && role !== UserRole.ADMIN) || isActive === false)) {
+      return res
+        .status(400)
+        .json({ success: false, error: "You cannot demote or deactivate yourself" })
+    }
+
+    const updated = await prisma.user.update({
+      where: { id },
+      data: {
+        ...(typeof firstName === "string" && { firstName }),
+        ...(typeof lastName === "string" && { lastName }),
+        ...(role && { role }),
+        ...(typeof isActive === "boolean" && { isActive }),
+        ...(password && { passwordHash: await bcrypt.hash(password, 10) }),
+      },
+      select: userSelect,
+    })
+
+    // Deactivation or password change ends existing sessions
+    if (isActive === false || password) {
+      await prisma.refreshToken.updateMany({
+        where: { userId: id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      })
+    }
+
+    res.json({ success: true, data: updated })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
+
+/* ------------------------------------------------------------
+ * 4️⃣ Deactivate User
+ * ------------------------------------------------------------ */
+userRouter.delete("/:id", async (req, res) => {
+  try {
+    const { id } = req.params
+    if (id === req.user!.id) {
+      return res.status(400).json({ success: false, error: "You cannot deactivate yourself" })
+    }
+
+    const user = await prisma.user.findFirst({
+      where: { id, clientId: req.user!.clientId },
+    })
+    if (!user) return res.status(404).json({ success: false, error: "User not found" })
+
+    const [updated] = await prisma.$transaction([
+      prisma.user.update({ where: { id }, data: { isActive: false }, select: userSelect }),
+      prisma.refreshToken.updateMany({
+        where: { userId: id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      }),
+    ])
+
+    res.json({ success: true, data: updated })
+  } catch (err: any) {
+    res.status(500).json({ success: false, error: err.message })
+  }
+})
@@ -0,0 +1,76 @@
+/**
+ * auth.middleware.ts — Bearer token guard
+ * ------------------------------------------------------------
+ * Verifies `Authorization: Bearer <accessToken>` and attaches
+ * the authenticated user to `req.user`; `requirePermission`
+ * then checks the user's role against config/permissions, and
+ * `requireFeature` checks the client's tier entitlements.
+ * ------------------------------------------------------------
+ */
+
+import { NextFunction, Request, Response } from "express"
+import { AuthError, AuthUser, verifyAccessToken } from "../services/auth.service"
+import { hasPermission, Permission } from "../config/permissions"
+import { Feature } from "../config/entitlements"
+import { clientHasFeature } from "../services/entitlement.service"
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser
+    }
+  }
+}
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization || ""
+  const [scheme, token] = header.split(" ")
+
+  if (scheme !== "Bearer" || !token) {
+    return res.status(401).json({ success: false, error: "Missing bearer token" })
+  }
+
+  try {
+    req.user = await verifyAccessToken(token)
+    next()
+  } catch (err: any) {
+    const status = err instanceof AuthError ? err.status : 500
+    res.status(status).json({ success: false, error: err.message })
+  }
+}
+
+/** Must run after requireAuth — rejects roles not listed in PERMISSIONS */
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ success: false, error: "Not authenticated" })
+    }
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({
+        success: false,
+        error: `Role ${req.user.role} is not allowed to ${permission}`,
+      })
+    }
+    next()
+  }
+}
+
+/** Must run after requireAuth — rejects clients whose tier lacks the feature */
+export function requireFeature(feature: Feature) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ success: false, error: "Not authenticated" })
+    }
+    try {
+      if (!(await clientHasFeature(req.user.clientId, feature))) {
+        return res.status(403).json({
+          success: false,
+          error: `Your plan does not include ${feature}`,
+        })
+      }
+      next()
+    } catch (err: any) {
+      res.status(500).json({ success: false, error: err.message })
+    }
+  }
+}
@@ -0,0 +1,14 @@
+// src/queues/brand-intel.queue.ts
+import { Queue } from "bullmq";
+import IORedis from "ioredis";
+
+export const connection = new IORedis(process.env.REDIS_URL!, {
+  maxRetriesPerRequest: null,
+  enableReadyCheck: false,
+});
+
+/**
+ * 🧠 Brand intelligence jobs: the scheduler tick and per-source crawls.
+ * The worker lives in app.ts; the API enqueues manual crawls here.
+ */
+export const brandIntelQueue = new Queue("brand-intelligence", { connection });
@@ -5,6 +5,7 @@ import {
   handleThreatVerifyRespond,
   getWsBroadcaster,
 } from "../services/verification-response.service";
+import { resolveVerificationPolicy } from "../services/entitlement.service";
 
 export const connection = new IORedis(process.env.REDIS_URL!, {
   maxRetriesPerRequest: null,
@@ -43,9 +44,30 @@ export const verificationWorker = new Worker(
       console.log(`🔍 Running verification for threat: ${threatId}`);
 
       try {
-        const result = await handleThreatVerifyRespond(threatId, !!autopost);
+        // Tier is re-read per job so plan changes apply immediately
+        const policy = await resolveVerificationPolicy(threatId);
+        if (!policy.canVerify) {
+          console.log(
+            `⏭️ Skipping verification for ${threatId} — tier ${policy.tier ?? "unknown"} has no automated verification.`
+          );
+          return { ok: true, skipped: "not_entitled" };
+        }
+
+        const result = await handleThreatVerifyRespond(
+          threatId,
+          !!autopost && policy.canAutopost
+        );
 
-        if (result?.verified === true) {
+        if (result?.action === "news_tracked") {
+          console.log(
+            `📰 News threat ${threatId} verified → ${result.status} (no response for news).`
+          );
+          broadcast?.("verification_complete", {
+            threatId,
+            status: `NEWS_${result.status}`,
+            message: "📰 News coverage verified — tracked, no response",
+          });
+        } else if (result?.verified === true) {
           console.log(
             `✅ Threat ${threatId} verified as TRUE (no misinformation detected).`
           );
@@ -11,12 +11,11 @@
  */
 
 import { PrismaClient } from "@prisma/client";
-import Groq from "groq-sdk";
 import * as dotenv from "dotenv";
+import { completeText } from "../services/llm";
 dotenv.config();
 
 const prisma = new PrismaClient();
-const groq = new Groq({ apiKey: process.env.GROQ_API_KEY! });
 
 async function generateCrisisScenario() {
   console.log("\n🧠 Generating multi-angle crisis misinformation scenarios...\n");
@@ -151,12 +150,10 @@ Scenario 3:
 [content]
 `;
 
-  // 4️⃣ Call Groq to generate the rich, multi-angle scenarios
-  const res = await groq.chat.completions.create({
-    model: "llama-3.3-70b-versatile",
-    temperature: 0.55, // balanced: not too wild, not too stiff
-    max_tokens: 1800,
-    messages: [
+  // 4️⃣ Call the LLM to generate the rich, multi-angle scenarios
+  const output = await completeText(
+    "crisis-scenario",
+    [
       {
         role: "system",
         content:
@@ -164,9 +161,8 @@ Scenario 3:
       },
       { role: "user", content: prompt },
     ],
-  });
-
-  const output = res.choices[0]?.message?.content?.trim() || "No scenario generated.";
+    { temperature: 0.55, maxTokens: 1800, timeoutMs: 120_000 } // balanced: not too wild, not too stiff
+  );
 
   console.log("------------------------------------------------------------");
   console.log("🧾 Generated Crisis Simulation Scenarios:\n");
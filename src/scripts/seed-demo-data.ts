@@ -35,7 +35,7 @@ async function main() {
 
   // 3️⃣ Brand
   const brand = await prisma.brand.upsert({
-    where: { name: "Zenith Bank" },
+    where: { clientId_name: { clientId: client.id, name: "Zenith Bank" } },
     update: {},
     create: {
       clientId: client.id,
@@ -44,6 +44,11 @@ async function main() {
       industry: "Banking",
       officialTwitterHandle: "@zenithbank",
       websiteUrl: "https://www.zenithbank.com",
+      searchName: "Zenith Bank Nigeria",
+      mandatoryUrls: [
+        "https://www.zenithbank.com/media/news/",
+        "https://www.zenithbank.com/customer-service/?id=SCAM_ALERT",
+      ],
       brandTone: "PROFESSIONAL",
     },
   });
@@ -67,7 +72,7 @@ async function main() {
 
   // 5️⃣ Monitor
   const monitor = await prisma.monitor.upsert({
-    where: { name: "Zenith Bank Watch" },
+    where: { brandId_name: { brandId: brand.id, name: "Zenith Bank Watch" } },
     update: {},
     create: {
       brandId: brand.id,
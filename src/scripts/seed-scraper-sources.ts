@@ -6,7 +6,7 @@ const prisma = new PrismaClient();
 async function main() {
   console.log("🌱 Seeding scrape sources for Zenith Bank…");
 
-  const brand = await prisma.brand.findUnique({
+  const brand = await prisma.brand.findFirst({
     where: { name: "Zenith Bank" },
     select: { id: true },
   });
@@ -195,7 +195,7 @@ const sources = [
 
 for (const src of sources) {
   await prisma.scrapeSource.upsert({
-    where: { name: src.name },
+    where: { brandId_name: { brandId: brand.id, name: src.name } },
     update: {
       baseUrl: src.baseUrl,
       entryPaths: src.entryPaths,
@@ -323,7 +323,7 @@ class BrandIntelligenceScraper {
 
     // 1️⃣ Upsert ScrapeSource for this brand
     const scrapeSource = await prisma.scrapeSource.upsert({
-      where: { name: `${CONFIG.BRAND_NAME} - Web Intelligence` },
+      where: { brandId_name: { brandId: CONFIG.BRAND_ID, name: `${CONFIG.BRAND_NAME} - Web Intelligence` } },
       update: {
         lastCrawledAt: now,
         updatedAt: now,
@@ -363,7 +363,7 @@ class BrandIntelligenceScraper {
 
         // 3️⃣ Check for existing article
         const existing = await prisma.scrapedItem.findUnique({
-          where: { url: article.url },
+          where: { sourceId_url: { sourceId: scrapeSource.id, url: article.url } },
         });
 
         if (existing) {
@@ -0,0 +1,171 @@
+/**
+ * article-cluster.service.ts — Near-duplicate clusters of ScrapedItems
+ * ------------------------------------------------------------
+ * - Syndicated stories (the same wire copy on Vanguard, Guardian,
+ *   BusinessDay…) are grouped into one ScrapedItemCluster per brand
+ * - Candidates share an LSH band key; MinHash Jaccard decides
+ *   (see text-fingerprint.ts)
+ * - Joining a cluster requires a match with its canonical item
+ *   too (no single-link chaining)
+ * - Each cluster keeps a canonical item: most credible, then the
+ *   earliest published copy
+ * - Verification counts corroboration by cluster, not by copy
+ * ------------------------------------------------------------
+ */
+
+import { prisma } from "../db/client";
+import { fingerprintText, nearDuplicateScore } from "./text-fingerprint";
+
+const MAX_CANDIDATES = 100;
+
+/* ------------------------------------------------------------
+ * 1️⃣ Assignment
+ * ------------------------------------------------------------ */
+/**
+ * Fingerprints the item and moves it into the cluster of its closest
+ * near-duplicate (or a cluster of its own). Texts too short to
+ * fingerprint are left unclustered and count as independent.
+ */
+export async function assignCluster(
+  brandId: string,
+  item: { id: string; content: string; clusterId: string | null }
+) {
+  const fingerprint = fingerprintText(item.content);
+
+  if (!fingerprint) {
+    await prisma.scrapedItem.update({
+      where: { id: item.id },
+      data: { simhash: null, minhash: [], lshBands: [], clusterId: null },
+    });
+    if (item.clusterId) await refreshCluster(item.clusterId);
+    return null;
+  }
+
+  const candidates = await prisma.scrapedItem.findMany({
+    where: {
+      id: { not: item.id },
+      source: { brandId },
+      simhash: { not: null },
+      lshBands: { hasSome: fingerprint.bands },
+    },
+    select: { id: true, clusterId: true, minhash: true },
+    orderBy: { fetchedAt: "desc" },
+    take: MAX_CANDIDATES,
+  });
+
+  const ranked = candidates
+    .map((candidate) => ({ candidate, score: nearDuplicateScore(fingerprint, candidate) }))
+    .filter((c) => c.score !== null)
+    .sort((a, b) => b.score! - a.score!);
+
+  // joining a cluster also requires a match with its canonical copy, so a
+  // chain of small edits (A≈B, B≈C, A≉C) can't pull unrelated stories together
+  let match: (typeof candidates)[number] | null = null;
+  const canonicalChecks = new Map<string, boolean>();
+  for (const { candidate } of ranked) {
+    if (!candidate.clusterId) {
+      match = candidate;
+      break;
+    }
+    if (!canonicalChecks.has(candidate.clusterId)) {
+      canonicalChecks.set(candidate.clusterId, await matchesCanonical(candidate.clusterId, item.id, fingerprint));
+    }
+    if (canonicalChecks.get(candidate.clusterId)) {
+      match = candidate;
+      break;
+    }
+  }
+
+  let clusterId = match?.clusterId ?? null;
+  if (!clusterId) {
+    clusterId = (await prisma.scrapedItemCluster.create({ data: { brandId } })).id;
+    if (match) await prisma.scrapedItem.update({ where: { id: match.id }, data: { clusterId } });
+  }
+
+  await prisma.scrapedItem.update({
+    where: { id: item.id },
+    data: { simhash: fingerprint.simhash, minhash: fingerprint.minhash, lshBands: fingerprint.bands, clusterId },
+  });
+
+  await refreshCluster(clusterId);
+  // an edited article can drift away from its old cluster
+  if (item.clusterId && item.clusterId !== clusterId) await refreshCluster(item.clusterId);
+
+  return clusterId;
+}
+
+async function matchesCanonical(clusterId: string, itemId: string, fingerprint: { minhash: number[] }) {
+  const cluster = await prisma.scrapedItemCluster.findUnique({
+    where: { id: clusterId },
+    select: { canonicalItemId: true },
+  });
+  // the item itself (re-fingerprinted after an edit) or a cluster mid-refresh
+  if (!cluster?.canonicalItemId || cluster.canonicalItemId === itemId) return true;
+
+  const canonical = await prisma.scrapedItem.findUnique({
+    where: { id: cluster.canonicalItemId },
+    select: { minhash: true },
+  });
+  return !!canonical && nearDuplicateScore(fingerprint, canonical) !== null;
+}
+
+/** Recomputes size and canonical item; empty clusters are deleted */
+async function refreshCluster(clusterId: string) {
+  const items = await prisma.scrapedItem.findMany({
+    where: { clusterId },
+    select: { id: true, credibility: true, publishedAt: true, fetchedAt: true },
+    orderBy: [{ credibility: "desc" }, { publishedAt: { sort: "asc", nulls: "last" } }, { fetchedAt: "asc" }],
+  });
+
+  if (!items.length) {
+    await prisma.scrapedItemCluster.deleteMany({ where: { id: clusterId } });
+    return;
+  }
+
+  await prisma.scrapedItemCluster.update({
+    where: { id: clusterId },
+    data: { canonicalItemId: items[0].id, itemCount: items.length },
+  });
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ Corroboration
+ * ------------------------------------------------------------ */
+/**
+ * Keeps the first item of each cluster (callers sort by preference)
+ * and counts the copies it stands for. Unclustered items are their
+ * own group.
+ */
+export function collapseClusters<T extends { id: string; clusterId: string | null }>(items: T[]) {
+  const groups = new Map<string, T & { copies: number }>();
+  for (const item of items) {
+    const key = item.clusterId ?? item.id;
+    const group = groups.get(key);
+    if (group) group.copies++;
+    else groups.set(key, { ...item, copies: 1 });
+  }
+  return [...groups.values()];
+}
+
+/* ------------------------------------------------------------
+ * 3️⃣ Cluster view (API)
+ * ------------------------------------------------------------ */
+export function getClusterWithItems(clusterId: string) {
+  return prisma.scrapedItemCluster.findUnique({
+    where: { id: clusterId },
+    include: {
+      items: {
+        select: {
+          id: true,
+          url: true,
+          title: true,
+          publishedAt: true,
+          credibility: true,
+          stance: true,
+          source: { select: { id: true, name: true } },
+        },
+        orderBy: [{ credibility: "desc" }, { publishedAt: "asc" }],
+      },
+    },
+  });
+}
@@ -0,0 +1,213 @@
+/**
+ * article-extractor.ts — Article fetching & extraction
+ * ------------------------------------------------------------
+ * - Fetches a URL (robots.txt + per-domain limits) and extracts
+ *   title, body, authors, publish date, publisher
+ * - Body via readability scoring (services/readability), JSON-LD
+ *   NewsArticle metadata preferred over meta-tag heuristics
+ * - Keeps the page HTML compressed for ScrapedItem.rawHtml
+ * - Shared by brand intelligence (search results, mandatory URLs)
+ *   and the source crawler
+ * ------------------------------------------------------------
+ */
+
+import * as cheerio from "cheerio";
+import crypto from "crypto";
+import { politeFetch } from "./polite-fetch";
+import { compressHtml, extractJsonLd, extractReadableText } from "./readability";
+import { failureReason } from "./scrape-run.service";
+
+export type ExtractedArticle = {
+  url: string;
+  title: string;
+  content: string;
+  excerpt: string;
+  authors: string[];
+  publishedAt: Date | null;
+  tags: string[];
+  rawHtml: string | null; // gzip + base64 (readability.compressHtml)
+  scrapedMeta: {
+    source: string;
+    description: string;
+    category: string;
+    publisher: string | null;
+    extractor: "readability" | "json-ld" | "feed";
+    extractorVersion: number;
+    dateModified: Date | null;
+    sentimentIndicators: { negative: string[]; positive: string[] };
+    wordCount: number;
+  };
+};
+
+const NEGATIVE_KEYWORDS = [
+  "scam","fraud","complaint","lawsuit","illegal","breach","hack","stolen",
+  "loss","fail","poor","bad","terrible","worst","avoid","warning","alert",
+  "crisis","scandal","corruption","embezzlement","theft","negligence","abuse",
+];
+
+const POSITIVE_KEYWORDS = [
+  "award","best","excellent","success","growth","innovation","leader","top",
+  "great","outstanding","achievement","win","partnership","expansion",
+  "milestone","recognized","celebrates","commend","progress",
+];
+
+const MIN_WORDS = 30;
+
+/** Bump when extraction changes the stored text of unchanged pages */
+export const EXTRACTOR_VERSION = 2;
+
+function wordCount(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export function generateContentHash(content: string) {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+function extractAuthors($: cheerio.CheerioAPI): string[] {
+  const authors: string[] = [];
+  const selectors = [
+    'meta[name="author"]',
+    'meta[property="article:author"]',
+    ".author-name",
+    ".author",
+    "[rel='author']",
+    ".byline",
+  ];
+
+  for (const selector of selectors) {
+    $(selector).each((_, el) => {
+      const content = $(el).attr("content") || $(el).text().trim();
+      if (content && content.length > 2 && content.length < 100) {
+        authors.push(content);
+      }
+    });
+  }
+
+  return [...new Set(authors)];
+}
+
+function extractPublishedDate($: cheerio.CheerioAPI): Date | null {
+  const selectors = [
+    'meta[property="article:published_time"]',
+    'meta[name="publication_date"]',
+    'meta[name="date"]',
+    "time[datetime]",
+    ".published-date",
+    ".post-date",
+  ];
+
+  for (const selector of selectors) {
+    const el = $(selector).first();
+    const dateStr =
+      el.attr("content") ||
+      el.attr("datetime") ||
+      el.text().trim();
+
+    if (dateStr) {
+      const date = new Date(dateStr);
+      if (!isNaN(date.getTime())) return date;
+    }
+  }
+
+  return null;
+}
+
+function extractCanonicalUrl($: cheerio.CheerioAPI, url: string): string {
+  return $('link[rel="canonical"]').attr("href") || url;
+}
+
+function analyzeSentiment(text: string) {
+  const t = text.toLowerCase();
+  return {
+    negative: NEGATIVE_KEYWORDS.filter((k) => t.includes(k)),
+    positive: POSITIVE_KEYWORDS.filter((k) => t.includes(k)),
+  };
+}
+
+/**
+ * Fetches a page and extracts the article body (readability scoring or
+ * JSON-LD articleBody), metadata (JSON-LD first, then meta tags) and
+ * keyword indicators. Returns null for failed or robots-blocked fetches
+ * and pages under 30 words; `onFailure` receives the reason ("404",
+ * "robots", "timeout", "network", "no_content").
+ */
+export async function fetchArticleContent(
+  url: string,
+  category: string,
+  source: string,
+  onFailure?: (reason: string) => void
+): Promise<ExtractedArticle | null> {
+  try {
+    const response = await politeFetch(url);
+    if (!response.ok) {
+      onFailure?.(String(response.status));
+      return null;
+    }
+
+    const $ = cheerio.load(response.body);
+    const jsonLd = extractJsonLd($); // before boilerplate removal drops <script>
+
+    const title =
+      $('meta[property="og:title"]').attr("content") ||
+      jsonLd?.headline ||
+      $("title").text() ||
+      $("h1").first().text();
+
+    const description =
+      $('meta[property="og:description"]').attr("content") ||
+      $('meta[name="description"]').attr("content") ||
+      jsonLd?.description ||
+      "";
+
+    const authors = jsonLd?.authors.length ? jsonLd.authors : extractAuthors($);
+    const publishedAt = jsonLd?.datePublished ?? extractPublishedDate($);
+    const canonicalUrl = extractCanonicalUrl($, url);
+    const publisher = jsonLd?.publisher ?? $('meta[property="og:site_name"]').attr("content") ?? null;
+
+    // the longer of the DOM extraction and the publisher's own articleBody
+    const readable = extractReadableText($);
+    const ldBody = jsonLd?.articleBody ?? "";
+    const fromJsonLd = wordCount(ldBody) > wordCount(readable);
+    const content = fromJsonLd ? ldBody : readable;
+
+    if (wordCount(content) < MIN_WORDS) {
+      onFailure?.("no_content"); // no article-like text on the page
+      return null;
+    }
+
+    const sentimentIndicators = analyzeSentiment(content);
+
+    return {
+      url: canonicalUrl,
+      title: title?.trim() || "Untitled",
+      content,
+      excerpt: description.substring(0, 500),
+      authors,
+      publishedAt,
+      tags: [
+        ...new Set([
+          ...sentimentIndicators.negative,
+          ...sentimentIndicators.positive,
+          ...(jsonLd?.keywords.slice(0, 10) ?? []),
+          category.toLowerCase(),
+        ]),
+      ],
+      rawHtml: compressHtml(response.body),
+      scrapedMeta: {
+        source,
+        description,
+        category,
+        publisher,
+        extractor: fromJsonLd ? "json-ld" : "readability",
+        extractorVersion: EXTRACTOR_VERSION,
+        dateModified: jsonLd?.dateModified ?? null,
+        sentimentIndicators,
+        wordCount: wordCount(content),
+      },
+    };
+  } catch (err) {
+    onFailure?.(failureReason(err));
+    return null;
+  }
+}
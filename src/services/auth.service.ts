@@ -0,0 +1,155 @@
+/**
+ * auth.service.ts — JWT Authentication
+ * ------------------------------------------------------------
+ * - Verifies credentials against User.passwordHash (bcrypt)
+ * - Issues short-lived access tokens (JWT)
+ * - Issues opaque refresh tokens, stored hashed for revocation
+ * - Rotates refresh tokens on every refresh
+ * ------------------------------------------------------------
+ */
+
+import bcrypt from "bcrypt";
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import dotenv from "dotenv";
+import { UserRole } from "@prisma/client";
+import { prisma } from "../db/client";
+
+dotenv.config();
+
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS || 15 * 60);
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 7);
+
+export interface AuthUser {
+  id: string;
+  clientId: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+/** Raised for any credential/token problem — always maps to HTTP 401 */
+export class AuthError extends Error {
+  status = 401;
+}
+
+function getJwtSecret() {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) throw new Error("JWT_SECRET is not configured");
+  return secret;
+}
+
+function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function toAuthUser(user: { id: string; clientId: string; email: string; role: UserRole }): AuthUser {
+  return { id: user.id, clientId: user.clientId, email: user.email, role: user.role };
+}
+
+/* ------------------------------------------------------------
+ * 🔑 Token issuing
+ * ------------------------------------------------------------ */
+async function issueTokens(user: AuthUser): Promise<TokenPair> {
+  const accessToken = jwt.sign(
+    { clientId: user.clientId, email: user.email, role: user.role },
+    getJwtSecret(),
+    { subject: user.id, expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+
+  const refreshToken = crypto.randomBytes(48).toString("base64url");
+  await prisma.refreshToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    },
+  });
+
+  return { accessToken, refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Login
+ * ------------------------------------------------------------ */
+export async function login(email: string, password: string) {
+  const user = await prisma.user.findUnique({
+    where: { email: email.trim() },
+  });
+
+  // Same error for unknown email and wrong password
+  if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+    throw new AuthError("Invalid email or password");
+  }
+  if (!user.isActive) throw new AuthError("User account is inactive");
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date() },
+  });
+
+  const authUser = toAuthUser(user);
+  const tokens = await issueTokens(authUser);
+  return { user: authUser, ...tokens };
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ Refresh (rotates the refresh token)
+ * ------------------------------------------------------------ */
+export async function refresh(refreshToken: string) {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { user: true },
+  });
+
+  if (!stored || stored.revokedAt || stored.expiresAt < new Date()) {
+    throw new AuthError("Invalid or expired refresh token");
+  }
+  if (!stored.user.isActive) throw new AuthError("User account is inactive");
+
+  // conditional revoke: of two concurrent refreshes with the same token only one wins
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (count === 0) throw new AuthError("Invalid or expired refresh token");
+
+  const authUser = toAuthUser(stored.user);
+  const tokens = await issueTokens(authUser);
+  return { user: authUser, ...tokens };
+}
+
+/* ------------------------------------------------------------
+ * 3️⃣ Logout (revokes the refresh token)
+ * ------------------------------------------------------------ */
+export async function logout(refreshToken: string) {
+  await prisma.refreshToken.updateMany({
+    where: { tokenHash: hashToken(refreshToken), revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
+
+/* ------------------------------------------------------------
+ * 4️⃣ Access token verification (used by requireAuth)
+ * ------------------------------------------------------------ */
+export async function verifyAccessToken(token: string): Promise<AuthUser> {
+  let userId: string | undefined;
+  try {
+    const payload = jwt.verify(token, getJwtSecret()) as jwt.JwtPayload;
+    userId = payload.sub;
+  } catch {
+    throw new AuthError("Invalid or expired access token");
+  }
+  if (!userId) throw new AuthError("Invalid or expired access token");
+
+  // Re-read the user so deactivation takes effect before the token expires
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user || !user.isActive) throw new AuthError("User account is inactive");
+
+  return toAuthUser(user);
+}
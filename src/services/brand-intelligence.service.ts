@@ -1,326 +1,226 @@
 /**
  * BrandIntelligenceService
  * ------------------------------------------------------------
+ * - Runs for every active Brand whose plan includes brand intelligence
+ * - Search queries & mandatory URLs come from the Brand record
+ *   (searches go through the configured SearchProvider)
  * - Fetches & analyzes brand-related articles
- * - Scrapes mandatory brand URLs (always)
- * - Filters out negative or neutral sentiment
- * - Stores only positive, credible content
- * - Avoids redundant re-scraping
+ * - Scrapes mandatory brand URLs (always — changes are versioned & alerted)
+ * - Stores positive, neutral and negative coverage with its
+ *   sentiment score & stance (negative tier-1 news raises a threat)
+ * - Avoids redundant re-scraping; identical content is skipped within
+ *   a run, syndicated copies are clustered on save
+ * - Each run is recorded as a ScrapeRun of the brand's search source
  * ------------------------------------------------------------
  */
 
-import fetch, { RequestInit } from "node-fetch";
-import * as cheerio from "cheerio";
-import crypto from "crypto";
-import { PrismaClient } from "@prisma/client";
+import { Brand, PrismaClient, ScrapeSource } from "@prisma/client";
 import * as dotenv from "dotenv";
-import Groq from "groq-sdk";
-import Sentiment from "sentiment";
+import { brandHasFeature } from "./entitlement.service";
+import { fetchArticleContent, generateContentHash } from "./article-extractor";
+import { analyzeCoverage } from "./coverage.service";
+import { saveScrapedItem } from "./scraped-item.service";
+import { searchWeb, SearchQuotaExceededError } from "./search-provider";
+import { recordFailure, RunStats, RunTrigger, withScrapeRun } from "./scrape-run.service";
+import { SEARCH_SOURCE_TYPE } from "./source-crawler.service";
 
 dotenv.config();
 
 const prisma = new PrismaClient();
-const groq = new Groq({ apiKey: process.env.GROQ_API_KEY! });
-const sentiment = new Sentiment();
 
 export class BrandIntelligenceService {
   private CONFIG = {
-    SERPAPI_KEY: process.env.SERPAPI_API_KEY || "",
-    // BRAND_ID: "cmhv9nskc0002uu3cl92dyovn",
-    BRAND_ID: "cmhxydh4d0002uucw5tkhni6o",
-    BRAND_NAME: "Zenith Bank Nigeria",
     MAX_RESULTS_PER_SOURCE: 8,
     FETCH_FULL_CONTENT: true,
     SCRAPE_INTERVAL_MINUTES: 60,
 
-    // 🔥 Mandatory URLs to scrape EVERY run
-    MANDATORY_URLS: [
-      {
-        url: "https://www.zenithbank.com/",
-        label: "Official Homepage",
-        source: "Zenith Bank",
-      },
-      {
-        url: "https://www.zenithbank.com/media/news/",
-        label: "Official News",
-        source: "Zenith Bank",
-      },
-      {
-        url: "https://www.zenithbank.com/customer-service/?id=SCAM_ALERT",
-        label: "Customer Service - Scam Alert",
-        source: "Zenith Bank",
-      }
-    ],
-
-    QUERIES: [
-      { type: "news", query: "Zenith Bank Nigeria", label: "General News" },
-      { type: "news", query: "Zenith Bank Nigeria CSR OR sustainability OR donation OR impact", label: "CSR & Impact" },
-      { type: "search", query: "Zenith Bank Nigeria awards OR recognition OR ranking OR best bank", label: "Awards & Recognition" },
-      { type: "search", query: "Zenith Bank Nigeria partnership OR fintech OR innovation OR launch", label: "Innovation & Partnerships" },
-      { type: "search", query: "Zenith Bank Nigeria financial performance OR growth OR expansion", label: "Growth & Performance" },
+    // Topics appended to the brand's search name when it has no custom queries
+    DEFAULT_QUERY_TOPICS: [
+      { type: "news", topic: "", label: "General News" },
+      { type: "news", topic: "CSR OR sustainability OR donation OR impact", label: "CSR & Impact" },
+      { type: "search", topic: "awards OR recognition OR ranking OR best bank", label: "Awards & Recognition" },
+      { type: "search", topic: "partnership OR fintech OR innovation OR launch", label: "Innovation & Partnerships" },
+      { type: "search", topic: "financial performance OR growth OR expansion", label: "Growth & Performance" },
     ],
   };
 
-  private negativeKeywords = [
-    "scam","fraud","complaint","lawsuit","illegal","breach","hack","stolen",
-    "loss","fail","poor","bad","terrible","worst","avoid","warning","alert",
-    "crisis","scandal","corruption","embezzlement","theft","negligence","abuse",
-  ];
-
-  private positiveKeywords = [
-    "award","best","excellent","success","growth","innovation","leader","top",
-    "great","outstanding","achievement","win","partnership","expansion",
-    "milestone","recognized","celebrates","commend","progress",
-  ];
-
-  private calculateCredibility(article: any): number {
-    let score = 0.5;
-    const trusted = [
-      "bbc.com","reuters.com","bloomberg.com","ft.com","theguardian.com","cnn.com",
-      "premiumtimesng.com","punchng.com","thecable.ng",
-    ];
-    const domain = new URL(article.url).hostname.replace("www.", "");
-    if (trusted.some((d) => domain.includes(d))) score += 0.3;
-    if (article.authors.length > 0) score += 0.1;
-    if (article.publishedAt) score += 0.1;
-    return Math.min(1, Math.max(0, score));
-  }
-
-  private generateContentHash(content: string) {
-    return crypto.createHash("sha256").update(content).digest("hex");
-  }
-
-  private extractAuthors($: cheerio.CheerioAPI): string[] {
-    const authors: string[] = [];
-    const selectors = [
-      'meta[name="author"]',
-      'meta[property="article:author"]',
-      ".author-name",
-      ".author",
-      "[rel='author']",
-      ".byline",
-    ];
-
-    for (const selector of selectors) {
-      $(selector).each((_, el) => {
-        const content = $(el).attr("content") || $(el).text().trim();
-        if (content && content.length > 2 && content.length < 100) {
-          authors.push(content);
-        }
+  private async searchSource(query: string, type: string, label: string, onFailure: (reason: string) => void) {
+    try {
+      const results = await searchWeb(query, {
+        type: type === "news" ? "news" : "web",
+        num: this.CONFIG.MAX_RESULTS_PER_SOURCE,
       });
-    }
-
-    return [...new Set(authors)];
-  }
-
-  private extractPublishedDate($: cheerio.CheerioAPI): Date | null {
-    const selectors = [
-      'meta[property="article:published_time"]',
-      'meta[name="publication_date"]',
-      'meta[name="date"]',
-      "time[datetime]",
-      ".published-date",
-      ".post-date",
-    ];
 
-    for (const selector of selectors) {
-      const el = $(selector).first();
-      const dateStr =
-        el.attr("content") ||
-        el.attr("datetime") ||
-        el.text().trim();
-
-      if (dateStr) {
-        const date = new Date(dateStr);
-        if (!isNaN(date.getTime())) return date;
+      return results.map((r) => ({
+        url: r.url,
+        source: r.source,
+        category: label,
+      }));
+    } catch (err: any) {
+      if (err instanceof SearchQuotaExceededError) {
+        onFailure("search_quota");
+        console.warn(`⚠️ Search skipped — ${err.message}`);
+      } else {
+        onFailure("search_error");
+        console.error(`❌ Search failed for "${query}": ${err.message}`);
       }
+      return [];
     }
-
-    return null;
   }
 
-  private extractCanonicalUrl($: cheerio.CheerioAPI, url: string): string {
-    return $('link[rel="canonical"]').attr("href") || url;
+  /** Custom queries win; otherwise the default topics are applied to the search name */
+  private buildQueries(brand: Brand) {
+    const searchName = brand.searchName || brand.name;
+    if (brand.intelQueries.length > 0) {
+      return brand.intelQueries.map((query) => ({ type: "search", query, label: "Custom Query" }));
+    }
+    return this.CONFIG.DEFAULT_QUERY_TOPICS.map(({ type, topic, label }) => ({
+      type,
+      query: `${searchName} ${topic}`.trim(),
+      label,
+    }));
   }
 
-  private analyzeSentiment(text: string) {
-    const t = text.toLowerCase();
-    return {
-      negative: this.negativeKeywords.filter((k) => t.includes(k)),
-      positive: this.positiveKeywords.filter((k) => t.includes(k)),
-    };
+  /** Website homepage + configured official pages, de-duplicated */
+  private buildMandatoryUrls(brand: Brand) {
+    const urls = [...(brand.websiteUrl ? [brand.websiteUrl] : []), ...brand.mandatoryUrls];
+    return [...new Set(urls)].map((url) => ({
+      url,
+      label: url === brand.websiteUrl ? "Official Homepage" : "Official Page",
+      source: brand.name,
+    }));
   }
 
-  private async fetchArticleContent(url: string, category: string, source: string) {
-    try {
-      const options: RequestInit = {
-        headers: { "User-Agent": "Mozilla/5.0 (KonfamBot/1.0)" }
-      };
-
-      const response = await fetch(url, options);
-      if (!response.ok) return null;
-
-      const html = await response.text();
-      const $ = cheerio.load(html);
+  private isRecentlyScraped(sourceId: string, url: string) {
+    return prisma.scrapedItem.findFirst({
+      where: {
+        sourceId,
+        url,
+        updatedAt: {
+          gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+        },
+      },
+      select: { id: true },
+    });
+  }
 
-      const title =
-        $('meta[property="og:title"]').attr("content") ||
-        $("title").text() ||
-        $("h1").first().text();
+  /** Scrapes every active brand; one failing brand does not stop the others */
+  async runScrapeCycle() {
+    const brands = await prisma.brand.findMany({
+      where: { isActive: true },
+      orderBy: { createdAt: "asc" },
+    });
 
-      const description =
-        $('meta[property="og:description"]').attr("content") ||
-        $('meta[name="description"]').attr("content") ||
-        "";
+    console.log(`🧠 Brand intelligence cycle for ${brands.length} active brand(s)`);
 
-      const authors = this.extractAuthors($);
-      const publishedAt = this.extractPublishedDate($);
-      const canonicalUrl = this.extractCanonicalUrl($, url);
+    for (const brand of brands) {
+      try {
+        await this.scrapeBrand(brand);
+      } catch (err: any) {
+        console.error(`❌ Brand intelligence failed for ${brand.name}: ${err.message}`);
+      }
+    }
+  }
 
-      $("script, style, nav, header, footer, aside, .ad, .popup").remove();
+  /**
+   * The brand's search source (queries + mandatory URLs); created on
+   * first use and kept in sync with the brand's search configuration.
+   * Found by brand + type, so a renamed brand keeps its source (and
+   * schedule) and only the source name follows the brand.
+   */
+  async ensureSearchSource(brand: Brand) {
+    const queries = this.buildQueries(brand);
+    const sourceName = `${brand.name} - Web Intelligence`;
+
+    // sources created before the search type existed are found by name
+    const sources = await prisma.scrapeSource.findMany({
+      where: { brandId: brand.id, OR: [{ type: SEARCH_SOURCE_TYPE }, { name: sourceName }] },
+      orderBy: { createdAt: "asc" },
+    });
+    // the one already carrying the current name wins, so renaming can't collide
+    const [current, ...extra] = [
+      ...sources.filter((s) => s.name === sourceName),
+      ...sources.filter((s) => s.name !== sourceName),
+    ];
 
-      const paragraphs: string[] = [];
-      $("article p, main p, .content p").each((_, el) => {
-        const text = $(el).text().trim();
-        if (text && text.length > 80) paragraphs.push(text);
+    if (extra.length) {
+      // left behind by renames before sources were keyed by brand
+      await prisma.scrapeSource.updateMany({
+        where: { id: { in: extra.map((s) => s.id) } },
+        data: { isActive: false },
       });
-
-      const content = paragraphs.join("\n\n");
-      if (content.split(/\s+/).length < 50) return null;
-
-      const sentimentIndicators = this.analyzeSentiment(content);
-
-      return {
-        url: canonicalUrl,
-        title: title?.trim() || "Untitled",
-        content,
-        excerpt: description.substring(0, 500),
-        authors,
-        publishedAt,
-        tags: [
-          ...sentimentIndicators.negative,
-          ...sentimentIndicators.positive,
-          category.toLowerCase(),
-        ],
-        scrapedMeta: {
-          source,
-          description,
-          category,
-          sentimentIndicators,
-          wordCount: content.split(/\s+/).length,
-        },
-      };
-    } catch {
-      return null;
     }
-  }
 
-  private async searchSource(query: string, type: string, label: string) {
-    try {
-      const params = new URLSearchParams({
-        engine: "google",
-        q: query,
-        api_key: this.CONFIG.SERPAPI_KEY,
-        num: this.CONFIG.MAX_RESULTS_PER_SOURCE.toString(),
-        ...(type === "news" && { tbm: "nws" })
+    if (current) {
+      return prisma.scrapeSource.update({
+        where: { id: current.id },
+        data: { name: sourceName, entryPaths: queries.map((q) => q.query), type: SEARCH_SOURCE_TYPE },
       });
+    }
 
-      const res = await fetch(`https://serpapi.com/search?${params.toString()}`);
-      const raw = await res.json();
-
-      const data = raw as any;
+    return prisma.scrapeSource.create({
+      data: {
+        brandId: brand.id,
+        name: sourceName,
+        baseUrl: "https://www.google.com",
+        entryPaths: queries.map((q) => q.query),
+        type: SEARCH_SOURCE_TYPE,
+        crawlInterval: this.CONFIG.SCRAPE_INTERVAL_MINUTES * 60,
+      },
+    });
+  }
 
-      const results = data.news_results || data.organic_results || [];
+  async scrapeBrand(brand: Brand, trigger: RunTrigger = "schedule") {
+    if (!(await brandHasFeature(brand.id, "BRAND_INTELLIGENCE"))) {
+      console.log(`⏭️ Skipping scrape for ${brand.name} — plan has no brand intelligence.`);
+      return;
+    }
 
-      return results.map((r: any) => ({
-        url: r.link,
-        source: r.source || r.displayed_link || new URL(r.link).hostname,
-        category: label,
-      }));
-    } catch {
-      return [];
+    const scrapeSource = await this.ensureSearchSource(brand);
+    if (!scrapeSource.isActive) {
+      console.log(`⏭️ Skipping scrape for ${brand.name} — web intelligence source is paused.`);
+      return;
     }
+
+    return withScrapeRun(scrapeSource.id, trigger, (stats) => this.scrapeSearchSource(brand, scrapeSource, stats));
   }
 
-  async runScrapeCycle() {
+  private async scrapeSearchSource(brand: Brand, scrapeSource: ScrapeSource, stats: RunStats) {
     const now = new Date();
     const seenHashes = new Set<string>();
+    const searchName = brand.searchName || brand.name;
+    const queries = this.buildQueries(brand);
+    const onFailure = (reason: string) => recordFailure(stats, reason);
 
-    const scrapeSource = await prisma.scrapeSource.upsert({
-      where: { name: `${this.CONFIG.BRAND_NAME} - Web Intelligence` },
-      update: { lastCrawledAt: now, updatedAt: now, isActive: true },
-      create: {
-        brandId: this.CONFIG.BRAND_ID,
-        name: `${this.CONFIG.BRAND_NAME} - Web Intelligence`,
-        baseUrl: "https://www.google.com",
-        entryPaths: this.CONFIG.QUERIES.map((q) => q.query),
-        type: "news",
-        crawlInterval: this.CONFIG.SCRAPE_INTERVAL_MINUTES * 60,
-        lastCrawledAt: now,
-      },
+    await prisma.scrapeSource.update({
+      where: { id: scrapeSource.id },
+      data: { lastCrawledAt: now },
     });
 
-    console.log("📌 Scraping mandatory Zenith Bank sources...\n");
+    console.log(`📌 Scraping mandatory ${brand.name} sources...\n`);
 
     // =========================================================
     // 🔥 MANDATORY SOURCES SCRAPE
     // =========================================================
-    for (const entry of this.CONFIG.MANDATORY_URLS) {
-      const recent = await prisma.scrapedItem.findFirst({
-        where: {
-          url: entry.url,
-          updatedAt: {
-            gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-          },
-        },
-      });
-
-      if (recent) {
-        console.log(`⏩ Skipped mandatory (recent): ${entry.url}`);
-        continue;
-      }
-
-      const article = await this.fetchArticleContent(
+    // re-fetched every run so changes to official pages are caught
+    for (const entry of this.buildMandatoryUrls(brand)) {
+      stats.urlsDiscovered++;
+      const article = await fetchArticleContent(
         entry.url,
         entry.label,
-        entry.source
+        entry.source,
+        onFailure
       );
 
       if (!article) {
         console.log(`⚠️ Failed to scrape mandatory: ${entry.url}`);
         continue;
       }
+      stats.urlsFetched++;
 
-      const hash = this.generateContentHash(article.content);
-
-      await prisma.scrapedItem.upsert({
-        where: { url: article.url },
-        update: {
-          title: article.title,
-          authors: article.authors,
-          excerpt: article.excerpt,
-          content: article.content,
-          contentHash: hash,
-          tags: article.tags,
-          scrapedMeta: article.scrapedMeta,
-          updatedAt: now,
-        },
-        create: {
-          sourceId: scrapeSource.id,
-          url: article.url,
-          canonicalUrl: article.url,
-          title: article.title,
-          authors: article.authors,
-          publishedAt: article.publishedAt,
-          excerpt: article.excerpt,
-          content: article.content,
-          contentHash: hash,
-          tags: article.tags,
-          credibility: this.calculateCredibility(article),
-          scrapedMeta: article.scrapedMeta,
-          language: "en",
-        },
-      });
+      const { created, changed } = await saveScrapedItem({ ...scrapeSource, brand }, article);
+      if (created || changed) stats.itemsSaved++;
+      if (changed) console.log(`🔄 Mandatory source changed since last scrape: ${entry.url}`);
 
       console.log(`✅ Saved mandatory source: ${article.title}`);
     }
@@ -329,108 +229,51 @@ export class BrandIntelligenceService {
     // 🔥 SERP SEARCH SCRAPE
     // =========================================================
 
-    console.log(`📡 Running wide scrape for ${this.CONFIG.BRAND_NAME}...\n`);
+    console.log(`📡 Running wide scrape for ${brand.name}...\n`);
 
-    for (const queryConfig of this.CONFIG.QUERIES) {
+    for (const queryConfig of queries) {
       const searchResults = await this.searchSource(
         queryConfig.query,
         queryConfig.type,
-        queryConfig.label
+        queryConfig.label,
+        onFailure
       );
+      stats.urlsDiscovered += searchResults.length;
 
       for (const result of searchResults) {
-        const recent = await prisma.scrapedItem.findFirst({
-          where: {
-            url: result.url,
-            updatedAt: {
-              gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-            },
-          },
-        });
-
-        if (recent) {
+        if (await this.isRecentlyScraped(scrapeSource.id, result.url)) {
+          stats.urlsSkipped++;
           console.log(`⏩ Skipped (recent): ${result.url}`);
           continue;
         }
 
-        const article = await this.fetchArticleContent(
+        const article = await fetchArticleContent(
           result.url,
           result.category,
-          result.source
+          result.source,
+          onFailure
         );
 
         if (!article) continue;
+        stats.urlsFetched++;
 
-        const hash = this.generateContentHash(article.content);
-        if (seenHashes.has(hash)) continue;
-        seenHashes.add(hash);
-
-        let sentimentScore = 0;
-        try {
-          const prompt = `
-Rate the sentiment about ${this.CONFIG.BRAND_NAME} from -1 to +1.
-Return only JSON: {"sentimentScore": 0.5}
-Text: """${article.content.slice(0, 1000)}"""`;
-
-          const ai = await groq.chat.completions.create({
-            model: "llama-3.3-70b-versatile",
-            temperature: 0.2,
-            messages: [
-              { role: "system", content: "Be objective." },
-              { role: "user", content: prompt },
-            ],
-          });
-
-          const raw = ai.choices[0]?.message?.content ?? "{}";
-          const parsed = JSON.parse(raw);
-          sentimentScore = parsed.sentimentScore ?? 0;
-        } catch {
-          const fallback = sentiment.analyze(article.content);
-          sentimentScore = fallback.comparative;
-        }
-
-        if (sentimentScore < 0.2) {
-          console.log(`🚫 Skipped (neutral/negative): ${article.title}`);
+        const hash = generateContentHash(article.content);
+        if (seenHashes.has(hash)) {
+          stats.urlsSkipped++;
           continue;
         }
+        seenHashes.add(hash);
+
+        const coverage = await analyzeCoverage(searchName, article.content);
+        const { created, changed } = await saveScrapedItem({ ...scrapeSource, brand }, article, { coverage });
+        if (created || changed) stats.itemsSaved++;
+        else stats.urlsSkipped++;
 
-        const credibility = this.calculateCredibility(article);
-
-        await prisma.scrapedItem.upsert({
-          where: { url: article.url },
-          update: {
-            title: article.title,
-            authors: article.authors,
-            excerpt: article.excerpt,
-            content: article.content,
-            contentHash: hash,
-            tags: article.tags,
-            credibility,
-            scrapedMeta: article.scrapedMeta,
-            updatedAt: now,
-          },
-          create: {
-            sourceId: scrapeSource.id,
-            url: article.url,
-            canonicalUrl: article.url,
-            title: article.title,
-            authors: article.authors,
-            publishedAt: article.publishedAt,
-            excerpt: article.excerpt,
-            content: article.content,
-            contentHash: hash,
-            tags: article.tags,
-            credibility,
-            scrapedMeta: article.scrapedMeta,
-            language: "en",
-          },
-        });
-
-        console.log(`✅ Saved positive article: ${article.title}`);
+        console.log(`✅ Saved ${coverage.stance.toLowerCase()} article: ${article.title}`);
       }
     }
 
-    console.log(`\n✅ Wide scrape complete at ${now.toISOString()}\n`);
+    console.log(`\n✅ Wide scrape for ${brand.name} complete at ${now.toISOString()}\n`);
   }
 }
 
@@ -682,14 +525,14 @@ Text: """${article.content.slice(0, 1000)}"""`;
 //           continue;
 //         }
 
-//         const article = await this.fetchArticleContent(
+//         const article = await fetchArticleContent(
 //           result.url,
 //           result.category,
 //           result.source
 //         );
 //         if (!article) continue;
 
-//         const contentHash = this.generateContentHash(article.content);
+//         const contentHash = generateContentHash(article.content);
 //         if (seenHashes.has(contentHash)) {
 //           console.log(`⏩ Duplicate content skipped: ${article.title}`);
 //           continue;
@@ -726,7 +569,7 @@ Text: """${article.content.slice(0, 1000)}"""`;
 //           continue;
 //         }
 
-//         const credibility = this.calculateCredibility(article);
+//         const credibility = calculateCredibility(article);
 
 //         const existing = await prisma.scrapedItem.findUnique({
 //           where: { url: article.url },
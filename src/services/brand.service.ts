@@ -0,0 +1,237 @@
+/**
+ * brand.service.ts — Brand management
+ * ------------------------------------------------------------
+ * - Validates brand input for create / update
+ * - Soft deactivation pauses the brand's monitors & scrape sources
+ *   (and tells running detection workers to reload monitors)
+ * - Builds the brand detail summary (reputation, threats, monitors)
+ * ------------------------------------------------------------
+ */
+
+import { Prisma, ThreatStatus, VerificationMode } from "@prisma/client";
+import { prisma } from "../db/client";
+import { publishMonitorChange } from "./monitor-registry.service";
+
+export const BRAND_TONES = ["PROFESSIONAL", "FRIENDLY", "EMPATHETIC", "FORMAL", "CASUAL"];
+
+const OPEN_THREAT_STATUSES: ThreatStatus[] = [
+  ThreatStatus.NEW,
+  ThreatStatus.ANALYZING,
+  ThreatStatus.PENDING,
+];
+
+export type BrandInput = Partial<{
+  name: string;
+  description: string | null;
+  industry: string | null;
+  officialTwitterHandle: string | null;
+  websiteUrl: string | null;
+  searchName: string | null;
+  intelQueries: string[];
+  mandatoryUrls: string[];
+  brandTone: string;
+  verificationMode: VerificationMode;
+  isActive: boolean;
+}>;
+
+/* ------------------------------------------------------------
+ * 🧩 Validation
+ * ------------------------------------------------------------ */
+function parseHttpUrl(value: unknown) {
+  try {
+    const parsed = new URL(String(value));
+    if (!["http:", "https:"].includes(parsed.protocol)) return null;
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+function stringList(value: unknown, field: string, maxItems: number, maxLength: number, errors: string[]) {
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string" || !v.trim() || v.trim().length > maxLength)) {
+    errors.push(`${field} must be an array of non-empty strings (max ${maxLength} characters each)`);
+    return undefined;
+  }
+  const items = [...new Set(value.map((v: string) => v.trim()))];
+  if (items.length > maxItems) {
+    errors.push(`${field} can hold at most ${maxItems} entries`);
+    return undefined;
+  }
+  return items;
+}
+
+function optionalText(value: unknown, field: string, max: number, errors: string[]) {
+  if (value === null || value === "") return null;
+  if (typeof value !== "string" || value.trim().length > max) {
+    errors.push(`${field} must be a string of at most ${max} characters`);
+    return undefined;
+  }
+  return value.trim();
+}
+
+/**
+ * Validates a create (`partial = false`) or update (`partial = true`) payload.
+ * Only fields present in the body are returned.
+ */
+export function validateBrandInput(body: any, partial: boolean) {
+  const errors: string[] = [];
+  const data: BrandInput = {};
+  body = body ?? {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== "string" || body.name.trim().length < 2 || body.name.trim().length > 100) {
+      errors.push("name is required (2–100 characters)");
+    } else {
+      data.name = body.name.trim();
+    }
+  }
+
+  if (body.description !== undefined) {
+    data.description = optionalText(body.description, "description", 1000, errors);
+  }
+  if (body.industry !== undefined) {
+    data.industry = optionalText(body.industry, "industry", 100, errors);
+  }
+
+  if (body.officialTwitterHandle !== undefined) {
+    const handle = body.officialTwitterHandle;
+    if (handle === null || handle === "") {
+      data.officialTwitterHandle = null;
+    } else if (typeof handle !== "string" || !/^@?[A-Za-z0-9_]{1,15}$/.test(handle.trim())) {
+      errors.push("officialTwitterHandle must look like @handle (max 15 letters, digits or _)");
+    } else {
+      data.officialTwitterHandle = `@${handle.trim().replace(/^@/, "")}`;
+    }
+  }
+
+  if (body.websiteUrl !== undefined) {
+    const url = body.websiteUrl;
+    if (url === null || url === "") {
+      data.websiteUrl = null;
+    } else {
+      const parsed = parseHttpUrl(url);
+      if (parsed) data.websiteUrl = parsed;
+      else errors.push("websiteUrl must be a valid http(s) URL");
+    }
+  }
+
+  if (body.searchName !== undefined) {
+    data.searchName = optionalText(body.searchName, "searchName", 100, errors);
+  }
+  if (body.intelQueries !== undefined) {
+    data.intelQueries = stringList(body.intelQueries, "intelQueries", 20, 200, errors);
+  }
+  if (body.mandatoryUrls !== undefined) {
+    const urls = stringList(body.mandatoryUrls, "mandatoryUrls", 20, 2000, errors);
+    if (urls) {
+      const parsed = urls.map(parseHttpUrl);
+      if (parsed.some((u) => !u)) errors.push("mandatoryUrls must only contain valid http(s) URLs");
+      else data.mandatoryUrls = parsed as string[];
+    }
+  }
+
+  if (body.brandTone !== undefined) {
+    const tone = typeof body.brandTone === "string" ? body.brandTone.toUpperCase() : "";
+    if (!BRAND_TONES.includes(tone)) {
+      errors.push(`brandTone must be one of ${BRAND_TONES.join(", ")}`);
+    } else {
+      data.brandTone = tone;
+    }
+  }
+
+  if (body.verificationMode !== undefined) {
+    if (!Object.values(VerificationMode).includes(body.verificationMode)) {
+      errors.push(`verificationMode must be one of ${Object.values(VerificationMode).join(", ")}`);
+    } else {
+      data.verificationMode = body.verificationMode;
+    }
+  }
+
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== "boolean") errors.push("isActive must be a boolean");
+    else data.isActive = body.isActive;
+  }
+
+  return { data, errors };
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Create / Update
+ * ------------------------------------------------------------ */
+export function createBrand(clientId: string, data: BrandInput) {
+  return prisma.brand.create({
+    data: { ...(data as Prisma.BrandUncheckedCreateInput), clientId },
+  });
+}
+
+/**
+ * Applies an update; turning `isActive` off goes through the
+ * same cascade as deactivateBrand.
+ */
+export async function updateBrand(brandId: string, data: BrandInput) {
+  if (data.isActive === false) {
+    const { isActive, ...rest } = data;
+    await prisma.brand.update({ where: { id: brandId }, data: rest });
+    return deactivateBrand(brandId);
+  }
+  const brand = await prisma.brand.update({ where: { id: brandId }, data });
+  if (data.isActive !== undefined) publishMonitorChange(`brand ${brandId} updated`);
+  return brand;
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ Soft Deactivation
+ * ------------------------------------------------------------ */
+/**
+ * Marks the brand inactive and pauses its monitors and scrape sources.
+ * Reactivating the brand does not resume them — they are re-enabled
+ * individually so intentionally paused monitors stay paused.
+ */
+export async function deactivateBrand(brandId: string) {
+  const [brand] = await prisma.$transaction([
+    prisma.brand.update({ where: { id: brandId }, data: { isActive: false } }),
+    prisma.monitor.updateMany({ where: { brandId }, data: { isActive: false } }),
+    prisma.scrapeSource.updateMany({ where: { brandId }, data: { isActive: false } }),
+  ]);
+  publishMonitorChange(`brand ${brandId} deactivated`);
+  return brand;
+}
+
+/* ------------------------------------------------------------
+ * 3️⃣ Brand Detail Summary
+ * ------------------------------------------------------------ */
+export async function getBrandDetail(clientId: string, brandId: string) {
+  const brand = await prisma.brand.findFirst({ where: { id: brandId, clientId } });
+  if (!brand) return null;
+
+  const [openBySeverity, monitors, scrapeSources] = await Promise.all([
+    prisma.threat.groupBy({
+      by: ["severity"],
+      where: { brandId, status: { in: OPEN_THREAT_STATUSES } },
+      _count: { _all: true },
+    }),
+    prisma.monitor.findMany({
+      where: { brandId },
+      select: { id: true, name: true, platform: true, isActive: true, lastCheckedAt: true },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.scrapeSource.count({ where: { brandId, isActive: true } }),
+  ]);
+
+  const openThreats = { total: 0, CRITICAL: 0, HIGH: 0, MEDIUM: 0, LOW: 0 };
+  for (const row of openBySeverity) {
+    openThreats[row.severity] = row._count._all;
+    openThreats.total += row._count._all;
+  }
+
+  return {
+    ...brand,
+    openThreats,
+    monitorSummary: {
+      total: monitors.length,
+      active: monitors.filter((m) => m.isActive).length,
+      monitors,
+    },
+    activeScrapeSources: scrapeSources,
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * coverage.service.ts — Sentiment & stance of news coverage
+ * ------------------------------------------------------------
+ * - Scores each stored article's sentiment towards the brand
+ *   (LLM, local `sentiment` fallback) in the article's language
+ *   and maps it to a stance
+ * - Positive, neutral and negative coverage are all stored;
+ *   verification weighs supporting and contradicting items
+ * - Negative coverage from a tier-1 outlet raises its own
+ *   NEWS-origin Threat (tracked, never replied to)
+ * ------------------------------------------------------------
+ */
+
+import { Brand, CoverageStance, ScrapedItem, ThreatSeverity, ThreatStatus } from "@prisma/client";
+import { prisma } from "../db/client";
+import { verificationQueue } from "../queues/verification.queue";
+import { brandHasFeature } from "./entitlement.service";
+import { JsonSchema } from "./json-schema";
+import { analyzeLocalSentiment, detectLanguage, Language, LANGUAGE_NAMES } from "./language";
+import { completeJson } from "./llm";
+import { getDomainRegistry, rateDomain } from "./source-domain.service";
+import { getWsBroadcaster } from "./verification-response.service";
+
+const STANCE_THRESHOLD = 0.2; // |score| below this is NEUTRAL
+
+const COVERAGE_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["sentimentScore"],
+  properties: { sentimentScore: { type: "number", minimum: -1, maximum: 1 } },
+};
+
+export type Coverage = { sentimentScore: number; stance: CoverageStance };
+
+export function stanceFromScore(score: number): CoverageStance {
+  if (score >= STANCE_THRESHOLD) return CoverageStance.POSITIVE;
+  if (score <= -STANCE_THRESHOLD) return CoverageStance.NEGATIVE;
+  return CoverageStance.NEUTRAL;
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Analysis
+ * ------------------------------------------------------------ */
+export async function analyzeCoverage(
+  brandName: string,
+  content: string,
+  language: Language | null = detectLanguage(content).language
+): Promise<Coverage> {
+  let sentimentScore = 0;
+  try {
+    const written = language && language !== "en" ? ` The text is written in ${LANGUAGE_NAMES[language]}.` : "";
+    const prompt = `
+Rate the sentiment about ${brandName} from -1 to +1.${written}
+Return only JSON: {"sentimentScore": 0.5}
+Text: """${content.slice(0, 1000)}"""`;
+
+    const parsed = await completeJson<{ sentimentScore: number }>(
+      "coverage-sentiment",
+      [
+        { role: "system", content: "Be objective." },
+        { role: "user", content: prompt },
+      ],
+      COVERAGE_SCHEMA
+    );
+    sentimentScore = parsed.sentimentScore;
+  } catch (err: any) {
+    console.warn(`⚠️ Coverage sentiment via LLM failed → local fallback: ${err.message}`);
+    sentimentScore = analyzeLocalSentiment(content, language).comparative;
+  }
+
+  sentimentScore = Math.max(-1, Math.min(1, sentimentScore));
+  return { sentimentScore, stance: stanceFromScore(sentimentScore) };
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ News-origin threats
+ * ------------------------------------------------------------ */
+/**
+ * Raises a Threat for negative tier-1 coverage. Runs once per item —
+ * later edits of the article don't create a second threat.
+ */
+export async function raiseNewsThreat(brand: Brand, item: ScrapedItem) {
+  if (item.stance !== CoverageStance.NEGATIVE) return null;
+
+  const rating = rateDomain(await getDomainRegistry(brand.clientId), item.url, brand);
+  if (rating.category !== "TIER1_MEDIA") return null;
+
+  const existing = await prisma.threat.findFirst({ where: { scrapedItemId: item.id }, select: { id: true } });
+  if (existing) return null;
+
+  if (!(await brandHasFeature(brand.id, "DETECTION"))) return null;
+
+  const sentimentScore = item.sentimentScore ?? -STANCE_THRESHOLD;
+  const threatScore = Math.min(100, Math.abs(sentimentScore) * 70 + item.credibility * 30);
+  const severity: ThreatSeverity =
+    threatScore >= 80 ? "CRITICAL" : threatScore >= 60 ? "HIGH" : threatScore >= 40 ? "MEDIUM" : "LOW";
+
+  const content = [item.title, item.excerpt].filter(Boolean).join(" — ") || item.content.slice(0, 500);
+
+  const detectedPost = await prisma.detectedPost.upsert({
+    where: { externalPostId_platform: { externalPostId: item.id, platform: "NEWS" } },
+    update: {},
+    create: {
+      brandId: brand.id,
+      externalPostId: item.id,
+      platform: "NEWS",
+      sourceUrl: item.url,
+      content,
+      language: item.language,
+      authorHandle: rating.domain,
+      sentimentPolarity: sentimentScore,
+      isFlagged: true,
+      flagReason: `Negative coverage from ${rating.domain}`,
+      postedAt: item.publishedAt ?? item.fetchedAt,
+    },
+  });
+
+  const threat = await prisma.threat.create({
+    data: {
+      detectedPostId: detectedPost.id,
+      brandId: brand.id,
+      origin: "NEWS",
+      scrapedItemId: item.id,
+      severity,
+      threatType: "NEGATIVE_SENTIMENT",
+      status: ThreatStatus.NEW,
+      threatScore,
+      sentimentImpact: Math.abs(sentimentScore * 100),
+      viralityImpact: 0,
+      credibilityImpact: item.credibility * 100,
+      analysisReasons: [
+        `Negative coverage (${sentimentScore.toFixed(2)}) from tier-1 outlet ${rating.domain}`,
+        item.title ?? item.url,
+      ],
+    },
+  });
+
+  console.warn(`📰 News threat raised for ${brand.name}: ${item.title ?? item.url}`);
+
+  getWsBroadcaster()?.("news_threat_detected", {
+    threatId: threat.id,
+    brandId: brand.id,
+    severity,
+    itemId: item.id,
+    url: item.url,
+    title: item.title,
+    domain: rating.domain,
+    message: `📰 Negative ${rating.domain} coverage of ${brand.name}: ${item.title ?? item.url}`,
+  });
+
+  // verified like any other threat (corroborating vs contradicting coverage),
+  // but news threats never get an automated reply
+  if (await brandHasFeature(brand.id, "AUTOMATED_VERIFICATION")) {
+    await verificationQueue.add("verify-one", { threatId: threat.id, autopost: false }, { jobId: threat.id });
+  }
+
+  return threat;
+}
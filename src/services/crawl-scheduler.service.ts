@@ -0,0 +1,211 @@
+/**
+ * crawl-scheduler.service.ts — Per-source crawl scheduling
+ * ------------------------------------------------------------
+ * - Each ScrapeSource has a next-due time: lastCrawledAt + crawlInterval
+ *   + jitter (stored in nextCrawlAt)
+ * - A frequent tick enqueues one "crawl-source" job per due source on
+ *   the brand-intelligence queue
+ * - Search sources run the SerpAPI + mandatory URL scrape, all other
+ *   sources the listing / feed crawler
+ * - "Crawl now" from the API queues the same job with priority
+ * - Overdue sources are reported for the API
+ * - The tick also prunes old ScrapeRun history (hourly)
+ * ------------------------------------------------------------
+ */
+
+import { Queue } from "bullmq";
+import { Prisma, ScrapeSource } from "@prisma/client";
+import { prisma } from "../db/client";
+import { brandHasFeature } from "./entitlement.service";
+import { BrandIntelligenceService } from "./brand-intelligence.service";
+import { crawlSource, pruneSkippedLinks, SEARCH_SOURCE_TYPE } from "./source-crawler.service";
+import { pruneScrapeRuns, RunTrigger } from "./scrape-run.service";
+
+export const SCHEDULE_JOB = "schedule-crawls";
+export const CRAWL_JOB = "crawl-source";
+
+const JITTER_RATIO = 0.1; // up to 10% of the interval…
+const MAX_JITTER_SECONDS = 300; // …capped at 5 minutes
+const OVERDUE_GRACE_SECONDS = 300; // scheduler tick + queue wait
+const PRUNE_EVERY_MS = 60 * 60 * 1000;
+
+let lastPrunedAt = 0;
+
+type ScheduleFields = Pick<ScrapeSource, "crawlInterval" | "lastCrawledAt" | "nextCrawlAt">;
+
+/** Spreads sources with the same interval so they don't hit the network together */
+export function crawlJitterSeconds(intervalSeconds: number) {
+  return Math.random() * Math.min(intervalSeconds * JITTER_RATIO, MAX_JITTER_SECONDS);
+}
+
+export function nextCrawlAfter(from: Date, intervalSeconds: number) {
+  return new Date(from.getTime() + (intervalSeconds + crawlJitterSeconds(intervalSeconds)) * 1000);
+}
+
+/** Stored due time, else lastCrawledAt + interval; never-crawled sources are due at `fallback` */
+export function crawlDueAt(source: ScheduleFields, fallback = new Date()) {
+  if (source.nextCrawlAt) return source.nextCrawlAt;
+  if (source.lastCrawledAt) return new Date(source.lastCrawledAt.getTime() + source.crawlInterval * 1000);
+  return fallback;
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Scheduler tick
+ * ------------------------------------------------------------ */
+/** Makes sure every entitled active brand has its search source */
+async function ensureSearchSources(entitled: (brandId: string) => Promise<boolean>) {
+  const brands = await prisma.brand.findMany({
+    where: { isActive: true, scrapeSources: { none: { type: SEARCH_SOURCE_TYPE } } },
+  });
+  const intel = new BrandIntelligenceService();
+  for (const brand of brands) {
+    if (await entitled(brand.id)) await intel.ensureSearchSource(brand);
+  }
+}
+
+/**
+ * Enqueues a crawl job for every due source. The job id is derived from
+ * the due time, so a source waiting in the queue is not enqueued twice;
+ * the crawl job moves nextCrawlAt forward when it finishes.
+ */
+export async function enqueueDueSources(queue: Queue) {
+  const now = new Date();
+  const entitlement = new Map<string, boolean>();
+  const entitled = async (brandId: string) => {
+    if (!entitlement.has(brandId)) {
+      entitlement.set(brandId, await brandHasFeature(brandId, "BRAND_INTELLIGENCE"));
+    }
+    return entitlement.get(brandId)!;
+  };
+
+  await ensureSearchSources(entitled);
+
+  if (now.getTime() - lastPrunedAt > PRUNE_EVERY_MS) {
+    lastPrunedAt = now.getTime();
+    const pruned = await pruneScrapeRuns();
+    if (pruned) console.log(`🧹 Pruned ${pruned} old scrape run(s)`);
+    const expired = await pruneSkippedLinks();
+    if (expired) console.log(`🧹 Forgot ${expired} expired skipped link(s)`);
+  }
+
+  const sources = await prisma.scrapeSource.findMany({
+    where: {
+      isActive: true,
+      brand: { isActive: true },
+      OR: [{ nextCrawlAt: null }, { nextCrawlAt: { lte: now } }],
+    },
+    select: { id: true, name: true, brandId: true, crawlInterval: true, lastCrawledAt: true, nextCrawlAt: true },
+  });
+
+  let enqueued = 0;
+  for (const source of sources) {
+    const dueAt = crawlDueAt(source, now);
+
+    // pin the due time so the job id stays stable across ticks
+    if (!source.nextCrawlAt) {
+      await prisma.scrapeSource.update({ where: { id: source.id }, data: { nextCrawlAt: dueAt } });
+      if (dueAt > now) continue;
+    }
+
+    // out-of-plan brands are re-checked once per interval
+    if (!(await entitled(source.brandId))) {
+      await prisma.scrapeSource.update({
+        where: { id: source.id },
+        data: { nextCrawlAt: nextCrawlAfter(now, source.crawlInterval) },
+      });
+      continue;
+    }
+
+    await queue.add(
+      CRAWL_JOB,
+      { sourceId: source.id },
+      { jobId: `crawl-${source.id}-${dueAt.getTime()}`, removeOnComplete: true, removeOnFail: 100 }
+    );
+    enqueued++;
+  }
+
+  if (enqueued) console.log(`🗓️ ${enqueued} source(s) due for crawling`);
+  return { due: sources.length, enqueued };
+}
+
+/**
+ * Queues an immediate crawl ("crawl now"). A manual crawl already
+ * waiting for the source is reused rather than queued twice.
+ */
+export async function enqueueCrawlNow(queue: Queue, sourceId: string) {
+  const jobId = `crawl-${sourceId}-manual`;
+  const existing = await queue.getJob(jobId);
+  if (existing && ["waiting", "delayed", "active", "prioritized"].includes(await existing.getState())) {
+    return { jobId, alreadyQueued: true };
+  }
+  await existing?.remove(); // finished / failed job kept by removeOnFail
+
+  await queue.add(
+    CRAWL_JOB,
+    { sourceId, trigger: "manual" satisfies RunTrigger },
+    { jobId, priority: 1, removeOnComplete: true, removeOnFail: 100 }
+  );
+  return { jobId, alreadyQueued: false };
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ Crawl job
+ * ------------------------------------------------------------ */
+export async function runScheduledCrawl(sourceId: string, trigger: RunTrigger = "schedule") {
+  const source = await prisma.scrapeSource.findUnique({
+    where: { id: sourceId },
+    include: { brand: true },
+  });
+  if (!source || !source.isActive || !source.brand.isActive) {
+    return { ok: true, skipped: "inactive" };
+  }
+  if (!(await brandHasFeature(source.brandId, "BRAND_INTELLIGENCE"))) {
+    return { ok: true, skipped: "not_entitled" };
+  }
+
+  try {
+    if (source.type === SEARCH_SOURCE_TYPE) {
+      await new BrandIntelligenceService().scrapeBrand(source.brand, trigger);
+      return { ok: true };
+    }
+    return { ok: true, result: await crawlSource(source, trigger) };
+  } finally {
+    await prisma.scrapeSource.update({
+      where: { id: source.id },
+      data: { nextCrawlAt: nextCrawlAfter(new Date(), source.crawlInterval) },
+    });
+  }
+}
+
+/* ------------------------------------------------------------
+ * 3️⃣ Overdue report
+ * ------------------------------------------------------------ */
+/** Active sources past their due time (plus a grace period), most overdue first */
+export async function getOverdueSources(where: Prisma.ScrapeSourceWhereInput = {}) {
+  const now = new Date();
+  const sources = await prisma.scrapeSource.findMany({
+    where: { AND: [where, { isActive: true, brand: { isActive: true } }] },
+    select: {
+      id: true,
+      brandId: true,
+      name: true,
+      type: true,
+      crawlInterval: true,
+      lastCrawledAt: true,
+      nextCrawlAt: true,
+      createdAt: true,
+    },
+  });
+
+  return sources
+    .map((source) => {
+      const dueAt = crawlDueAt(source, source.createdAt);
+      return {
+        ...source,
+        dueAt,
+        overdueSeconds: Math.round((now.getTime() - dueAt.getTime()) / 1000),
+      };
+    })
+    .filter((s) => s.overdueSeconds > OVERDUE_GRACE_SECONDS)
+    .sort((a, b) => b.overdueSeconds - a.overdueSeconds);
+}
@@ -6,16 +6,50 @@ import {
   Platform,
   Threat,
 } from "@prisma/client";
-import Sentiment from "sentiment";
-import Groq from "groq-sdk";
 import dotenv from "dotenv";
 import { verificationQueue } from "../queues/verification.queue";
+import { brandHasFeature } from "./entitlement.service";
+import { JsonSchema } from "./json-schema";
+import { analyzeLocalSentiment, detectLanguage, Language, LANGUAGE_NAMES } from "./language";
+import { completeJson } from "./llm";
+import { getMonitorMatcher } from "./monitor-query";
+import { SOCIAL_PLATFORMS } from "./monitor.service";
 
 dotenv.config();
 
 const prisma = new PrismaClient({ log: ["warn", "error"] });
-const sentiment = new Sentiment();
-const groq = new Groq({ apiKey: process.env.GROQ_API_KEY! });
+
+const POST_SENTIMENT_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["sentimentScore", "tone", "summary"],
+  properties: {
+    sentimentScore: { type: "number", minimum: -1, maximum: 1 },
+    tone: { type: "string", minLength: 1, maxLength: 40 },
+    summary: { type: "string", maxLength: 500 },
+  },
+};
+
+/** Validates a raw platform value against the social platforms (case-insensitive) */
+export function parsePlatform(value: unknown): Platform | null {
+  if (typeof value !== "string") return null;
+  const upper = value.trim().toUpperCase();
+  return (SOCIAL_PLATFORMS as string[]).includes(upper) ? (upper as Platform) : null;
+}
+
+/** Local Sentiment.js scoring — used as LLM fallback and in degraded mode */
+function analyzeSentimentLocally(content: string, language: Language | null) {
+  const result = analyzeLocalSentiment(content, language);
+  const score = Math.max(-1, Math.min(1, result.comparative));
+  const tone =
+    score < -0.4
+      ? "ANGER"
+      : score < -0.2
+      ? "CONCERN"
+      : score < 0.2
+      ? "NEUTRAL"
+      : "POSITIVE";
+  return { score, tone };
+}
 
 export async function detectAndStorePost(data: {
   monitorId: string;
@@ -30,21 +64,37 @@ export async function detectAndStorePost(data: {
   replyCount: number;
   viewCount: number;
   postedAt: Date;
+  degraded?: boolean; // client over monthlyPostLimit → no LLM calls
 }): Promise<Threat | null> {  // 👈 now typed
   const { monitorId, brandId, content, authorHandle } = data;
 
+  const platform = parsePlatform(data.platform);
+  if (!platform) {
+    console.log(`⚠️ Unknown platform "${data.platform}" — post ${data.externalPostId} rejected.`);
+    return null;
+  }
+
+  const { language } = detectLanguage(content);
+
   try {
-    console.log(`\n🧠 [Detection] Starting analysis for @${authorHandle}: "${content.slice(0, 70)}..."`);
+    console.log(
+      `\n🧠 [Detection] Starting analysis for @${authorHandle} (${language ?? "language unknown"}): "${content.slice(0, 70)}..."`
+    );
 
     // ------------------------------------------------------------
-    // 1️⃣ Sentiment Analysis (Groq AI → fallback to local)
+    // 1️⃣ Sentiment Analysis (LLM → fallback to local; local only when degraded)
     // ------------------------------------------------------------
     let sentimentScore = 0;
     let sentimentTone = "NEUTRAL";
     let sentimentSummary = "Default neutral fallback.";
 
-    try {
-      const prompt = `
+    if (data.degraded) {
+      ({ score: sentimentScore, tone: sentimentTone } = analyzeSentimentLocally(content, language));
+      sentimentSummary = "Keyword-only analysis (monthly post limit reached).";
+      console.log(`🧩 Degraded Sentiment → ${sentimentScore.toFixed(2)} (${sentimentTone})`);
+    } else {
+      try {
+        const prompt = `
 You are an AI sentiment analysis engine for brand reputation monitoring.
 Analyze the following post and return a valid JSON exactly in this format:
 {
@@ -52,44 +102,31 @@ Analyze the following post and return a valid JSON exactly in this format:
   "tone": "ANGER",
   "summary": "User is frustrated about Zenith Bank app downtime."
 }
-
+${language ? `The post is written in ${LANGUAGE_NAMES[language]}; read its slang and idioms in that language and write the summary in English.\n` : ""}
 Text: """${content}"""
 `;
 
-      const response = await groq.chat.completions.create({
-        model: "llama-3.3-70b-versatile",
-        messages: [
-          { role: "system", content: "You are a precise and concise sentiment analysis model." },
-          { role: "user", content: prompt },
-        ],
-        temperature: 0.2,
-      });
-
-      const raw = response.choices[0]?.message?.content?.trim();
-      if (!raw) throw new Error("Empty Groq response");
-
-      const parsed = JSON.parse(raw);
-      sentimentScore = Math.max(-1, Math.min(1, parsed.sentimentScore));
-      sentimentTone = parsed.tone || "NEUTRAL";
-      sentimentSummary = parsed.summary || "No summary provided.";
-
-      console.log(`🤖 Groq Sentiment → ${sentimentScore.toFixed(2)} (${sentimentTone}) — ${sentimentSummary}`);
-    } catch (err: any) {
-      console.warn(`⚠️ Groq failed → fallback to local sentiment: ${err.message}`);
-
-      const result = sentiment.analyze(content);
-      sentimentScore = Math.max(-1, Math.min(1, result.comparative));
-      sentimentTone =
-        sentimentScore < -0.4
-          ? "ANGER"
-          : sentimentScore < -0.2
-          ? "CONCERN"
-          : sentimentScore < 0.2
-          ? "NEUTRAL"
-          : "POSITIVE";
-
-      sentimentSummary = "Local sentiment fallback used (Groq unavailable).";
-      console.log(`🧩 Local Sentiment → ${sentimentScore.toFixed(2)} (${sentimentTone})`);
+        const parsed = await completeJson<{ sentimentScore: number; tone: string; summary: string }>(
+          "post-sentiment",
+          [
+            { role: "system", content: "You are a precise and concise sentiment analysis model." },
+            { role: "user", content: prompt },
+          ],
+          POST_SENTIMENT_SCHEMA
+        );
+
+        sentimentScore = parsed.sentimentScore;
+        sentimentTone = parsed.tone.toUpperCase();
+        sentimentSummary = parsed.summary || "No summary provided.";
+
+        console.log(`🤖 LLM Sentiment → ${sentimentScore.toFixed(2)} (${sentimentTone}) — ${sentimentSummary}`);
+      } catch (err: any) {
+        console.warn(`⚠️ LLM failed → fallback to local sentiment: ${err.message}`);
+
+        ({ score: sentimentScore, tone: sentimentTone } = analyzeSentimentLocally(content, language));
+        sentimentSummary = "Local sentiment fallback used (LLM unavailable).";
+        console.log(`🧩 Local Sentiment → ${sentimentScore.toFixed(2)} (${sentimentTone})`);
+      }
     }
 
     // ------------------------------------------------------------
@@ -110,8 +147,13 @@ Text: """${content}"""
         id: true,
         name: true,
         keywords: true,
+        excludeKeywords: true,
+        query: true,
+        updatedAt: true,
         sentimentThreshold: true,
         viralityThreshold: true,
+        engagementThreshold: true,
+        engagementIncludesViews: true,
       },
     });
 
@@ -123,18 +165,30 @@ Text: """${content}"""
     // ------------------------------------------------------------
     // 4️⃣ Trigger Conditions
     // ------------------------------------------------------------
-    const lower = content.toLowerCase();
-    const matchedKeywords = monitor.keywords.filter((kw) => lower.includes(kw.toLowerCase()));
+    const { terms: matchedKeywords } = getMonitorMatcher(monitor).match(content);
+
+    // absolute engagement catches negative posts that are busy but not yet viral
+    const engagement = totalEngagement + (monitor.engagementIncludesViews ? data.viewCount : 0);
 
     const sentimentTrigger = sentimentScore <= monitor.sentimentThreshold;
     const viralityTrigger = viralScore >= monitor.viralityThreshold;
+    const engagementTrigger =
+      sentimentScore < 0 && monitor.engagementThreshold > 0 && engagement >= monitor.engagementThreshold;
     const keywordTrigger = matchedKeywords.length > 0;
-    const triggered = sentimentTrigger || viralityTrigger || keywordTrigger;
+    const triggered = sentimentTrigger || viralityTrigger || engagementTrigger || keywordTrigger;
+
+    const triggerNames = [
+      sentimentTrigger && "sentiment",
+      viralityTrigger && "virality",
+      engagementTrigger && `engagement (${engagement} ≥ ${monitor.engagementThreshold})`,
+      keywordTrigger && "keywords",
+    ].filter(Boolean);
+    const flagReason = triggered ? `Triggered by ${triggerNames.join(", ")}` : null;
 
     console.log(
       `🧠 Detection Check → sentiment=${sentimentScore.toFixed(2)} virality=${viralScore.toFixed(
         2
-      )} keywords=${matchedKeywords.length}`
+      )} engagement=${engagement} keywords=${matchedKeywords.length}`
     );
 
     // ------------------------------------------------------------
@@ -144,7 +198,7 @@ Text: """${content}"""
       where: {
         externalPostId_platform: {
           externalPostId: data.externalPostId,
-          platform: data.platform as Platform,
+          platform,
         },
       },
       update: {
@@ -153,6 +207,7 @@ Text: """${content}"""
         viralScore,
         engagementRate,
         emotionalTone: sentimentTone,
+        language,
         matchedKeywords,
         likeCount: data.likeCount,
         retweetCount: data.retweetCount,
@@ -160,21 +215,13 @@ Text: """${content}"""
         viewCount: data.viewCount,
         capturedAt: new Date(),
         isFlagged: triggered,
-        flagReason: triggered
-          ? `Triggered by ${
-              sentimentTrigger
-                ? "sentiment"
-                : viralityTrigger
-                ? "virality"
-                : "keywords"
-            }`
-          : null,
+        flagReason,
       },
       create: {
         monitorId,
         brandId,
         externalPostId: data.externalPostId,
-        platform: data.platform as Platform,
+        platform,
         content,
         authorHandle: data.authorHandle,
         authorId: data.authorId,
@@ -186,10 +233,12 @@ Text: """${content}"""
         engagementRate,
         sentimentPolarity: sentimentScore,
         emotionalTone: sentimentTone,
+        language,
         matchedKeywords,
         postedAt: new Date(data.postedAt),
         capturedAt: new Date(),
         isFlagged: triggered,
+        flagReason,
       },
     });
 
@@ -199,9 +248,17 @@ Text: """${content}"""
     let createdThreat: Threat | null = null;
 
     if (triggered) {
+      // engagement adds up to 20 points: 10 at the threshold, 20 at twice the threshold
+      const engagementImpact = engagementTrigger
+        ? Math.min(20, (engagement / monitor.engagementThreshold) * 10)
+        : 0;
+
       const threatScore = Math.min(
         100,
-        Math.abs(sentimentScore * 60) + viralScore * 0.8 + (keywordTrigger ? 10 : 0)
+        Math.abs(sentimentScore * 60) +
+          viralScore * 0.8 +
+          engagementImpact +
+          (keywordTrigger ? 10 : 0)
       );
 
       const severity: ThreatSeverity =
@@ -216,16 +273,24 @@ Text: """${content}"""
       const threatType: ThreatType =
         sentimentTrigger && keywordTrigger
           ? "NEGATIVE_SENTIMENT"
-          : viralityTrigger
+          : viralityTrigger || engagementTrigger
           ? "VIRAL_RISK"
           : "CRISIS";
 
       const reasons = [
         ...(matchedKeywords.length > 0 ? matchedKeywords : []),
         `${sentimentTone} tone detected`,
+        ...(engagementTrigger
+          ? [`High engagement: ${engagement} interactions (threshold ${monitor.engagementThreshold})`]
+          : []),
         sentimentSummary,
       ];
 
+      const previous = await prisma.threat.findUnique({
+        where: { detectedPostId: detectedPost.id },
+        select: { peakEngagement: true },
+      });
+
       createdThreat = await prisma.threat.upsert({
         where: { detectedPostId: detectedPost.id },
         update: {
@@ -236,6 +301,8 @@ Text: """${content}"""
           viralityImpact: viralScore,
           credibilityImpact: 50 + Math.random() * 30,
           analysisReasons: reasons,
+          currentEngagement: engagement,
+          peakEngagement: Math.max(previous?.peakEngagement ?? 0, engagement),
           status: ThreatStatus.NEW,
         },
         create: {
@@ -251,21 +318,25 @@ Text: """${content}"""
           credibilityImpact: 50 + Math.random() * 30,
           analysisReasons: reasons,
           predictedReach: data.viewCount,
+          currentEngagement: engagement,
+          peakEngagement: engagement,
         },
       });
 
-      // enqueue verification (step 3)
       // enqueue verification (event-driven, deduped by threatId)
-      await verificationQueue.add(
-        "verify-one",
-        {
-          threatId: createdThreat.id,
-          autopost: true,
-        },
-        {
-          jobId: createdThreat.id, // prevents duplicate verify jobs
-        }
-      );
+      // skipped in degraded mode (verification relies on Groq) or when the tier lacks it
+      if (!data.degraded && (await brandHasFeature(brandId, "AUTOMATED_VERIFICATION"))) {
+        await verificationQueue.add(
+          "verify-one",
+          {
+            threatId: createdThreat.id,
+            autopost: true,
+          },
+          {
+            jobId: createdThreat.id, // prevents duplicate verify jobs
+          }
+        );
+      }
 
       // await verificationQueue.add("verify-one", {
       //   threatId: createdThreat.id,
@@ -0,0 +1,67 @@
+/**
+ * entitlement.service.ts — Tier lookups for workers & API
+ * ------------------------------------------------------------
+ * Resolves the current ClientTier for a client, brand or threat
+ * (no caching) and answers feature checks against
+ * config/entitlements.
+ * ------------------------------------------------------------
+ */
+
+import { VerificationMode } from "@prisma/client";
+import { Feature, TIER_ENTITLEMENTS, tierHasFeature } from "../config/entitlements";
+import { prisma } from "../db/client";
+
+export async function clientHasFeature(clientId: string, feature: Feature) {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { tier: true },
+  });
+  return !!client && tierHasFeature(client.tier, feature);
+}
+
+export async function brandHasFeature(brandId: string, feature: Feature) {
+  const brand = await prisma.brand.findUnique({
+    where: { id: brandId },
+    select: { client: { select: { tier: true } } },
+  });
+  return !!brand && tierHasFeature(brand.client.tier, feature);
+}
+
+export async function getClientEntitlements(clientId: string) {
+  const client = await prisma.client.findUnique({
+    where: { id: clientId },
+    select: { tier: true },
+  });
+  if (!client) throw new Error("Client not found");
+  return { tier: client.tier, features: TIER_ENTITLEMENTS[client.tier] };
+}
+
+/**
+ * Decides what the verification worker may do for a threat:
+ * verification needs AUTOMATED_VERIFICATION; autoposting needs
+ * AUTOPILOT_POSTING *and* the brand set to AUTOPILOT mode.
+ */
+export async function resolveVerificationPolicy(threatId: string) {
+  const threat = await prisma.threat.findUnique({
+    where: { id: threatId },
+    select: {
+      brand: {
+        select: {
+          verificationMode: true,
+          client: { select: { tier: true } },
+        },
+      },
+    },
+  });
+
+  if (!threat) return { canVerify: false, canAutopost: false, tier: null };
+
+  const { tier } = threat.brand.client;
+  return {
+    tier,
+    canVerify: tierHasFeature(tier, "AUTOMATED_VERIFICATION"),
+    canAutopost:
+      tierHasFeature(tier, "AUTOPILOT_POSTING") &&
+      threat.brand.verificationMode === VerificationMode.AUTOPILOT,
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * feed-parser.ts — RSS 2.0 / RSS 1.0 / Atom parsing
+ * ------------------------------------------------------------
+ * Normalizes feed entries to { title, url, authors, publishedAt,
+ * summary, content, categories } using cheerio's XML mode.
+ * ------------------------------------------------------------
+ */
+
+import * as cheerio from "cheerio";
+
+export type FeedEntry = {
+  title: string;
+  url: string;
+  authors: string[];
+  publishedAt: Date | null;
+  summary: string; // plain text
+  content: string; // plain text of the full body when the feed carries it
+  categories: string[];
+};
+
+export class FeedParseError extends Error {}
+
+/** Strips markup from HTML carried inside feed fields */
+export function htmlToText(html: string) {
+  if (!html) return "";
+  const $ = cheerio.load(html);
+  $("script, style").remove();
+  $("p, br, div, li, h1, h2, h3, h4").after("\n");
+  return $.root()
+    .text()
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n\n")
+    .trim();
+}
+
+function parseDate(value: string) {
+  if (!value) return null;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function absoluteUrl(href: string, base?: string) {
+  try {
+    return new URL(href.trim(), base).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parses an RSS or Atom document. Entries without a usable link are
+ * dropped; relative links are resolved against `baseUrl`.
+ */
+export function parseFeed(xml: string, baseUrl?: string): FeedEntry[] {
+  const $ = cheerio.load(xml, { xml: true });
+  const child = (el: Parameters<typeof $>[0], selector: string) => $(el).children(selector).first();
+
+  const isAtom = $("feed").length > 0;
+  if (!isAtom && $("rss, rdf\\:RDF, channel").length === 0) {
+    throw new FeedParseError("Not an RSS or Atom document");
+  }
+
+  const entries: FeedEntry[] = [];
+
+  if (isAtom) {
+    $("entry").each((_, el) => {
+      const link =
+        $(el).children('link[rel="alternate"]').attr("href") ||
+        $(el).children("link:not([rel])").attr("href") ||
+        $(el).children("link").attr("href") ||
+        "";
+      if (!link.trim()) return; // "" would resolve to the feed URL itself
+      const url = absoluteUrl(link, baseUrl);
+      if (!url) return;
+
+      entries.push({
+        title: htmlToText(child(el, "title").text()) || "Untitled",
+        url,
+        authors: $(el)
+          .children("author")
+          .map((_, a) => $(a).children("name").text().trim())
+          .get()
+          .filter(Boolean),
+        publishedAt: parseDate(child(el, "published").text()) ?? parseDate(child(el, "updated").text()),
+        summary: htmlToText(child(el, "summary").text()),
+        content: htmlToText(child(el, "content").text()),
+        categories: $(el)
+          .children("category")
+          .map((_, c) => $(c).attr("term") || $(c).text())
+          .get()
+          .map((c: string) => c.trim())
+          .filter(Boolean),
+      });
+    });
+    return entries;
+  }
+
+  $("item").each((_, el) => {
+    const guid = child(el, "guid");
+    const link =
+      child(el, "link").text() ||
+      (guid.attr("isPermaLink") !== "false" ? guid.text() : "") ||
+      $(el).attr("rdf:about") ||
+      "";
+    if (!link.trim()) return;
+    const url = absoluteUrl(link, baseUrl);
+    if (!url) return;
+
+    const authors = [
+      ...$(el).children("dc\\:creator").map((_, a) => $(a).text()).get(),
+      ...$(el).children("author").map((_, a) => $(a).text()).get(),
+    ]
+      .map((a: string) => a.trim())
+      .filter(Boolean);
+
+    entries.push({
+      title: htmlToText(child(el, "title").text()) || "Untitled",
+      url,
+      authors: [...new Set(authors)],
+      publishedAt: parseDate(child(el, "pubDate").text()) ?? parseDate(child(el, "dc\\:date").text()),
+      summary: htmlToText(child(el, "description").text()),
+      content: htmlToText(child(el, "content\\:encoded").text()),
+      categories: $(el)
+        .children("category")
+        .map((_, c) => $(c).text().trim())
+        .get()
+        .filter(Boolean),
+    });
+  });
+
+  return entries;
+}
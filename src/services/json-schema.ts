@@ -0,0 +1,120 @@
+/**
+ * json-schema.ts — Minimal JSON Schema validation for LLM output
+ * ------------------------------------------------------------
+ * Supports the subset our prompts use: type, properties,
+ * required, additionalProperties, items, enum, minimum / maximum,
+ * minLength / maxLength, minItems / maxItems. Errors are short
+ * "$.path: message" strings that can be fed back to the model.
+ * ------------------------------------------------------------
+ */
+
+type JsonType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export type JsonSchema = {
+  type?: JsonType | JsonType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: readonly (string | number | boolean | null)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+};
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value as JsonType;
+}
+
+function matchesType(value: unknown, type: JsonType) {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/** Empty array = valid */
+export function validateJson(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be ≥ ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be ≤ ${schema.maximum}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const propSchema = schema.properties?.[key];
+      if (propSchema) errors.push(...validateJson(child, propSchema, `${path}.${key}`));
+      else if (schema.additionalProperties === false) errors.push(`${path}.${key}: is not allowed`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Smallest value that satisfies the schema (first enum value, lower
+ * bounds, required properties only) — used by the fake LLM provider.
+ */
+export function sampleFromSchema(schema: JsonSchema): unknown {
+  if (schema.enum?.length) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        (schema.required ?? []).map((key) => [key, sampleFromSchema(schema.properties?.[key] ?? {})])
+      );
+    case "array":
+      return Array.from({ length: schema.minItems ?? 0 }, () => sampleFromSchema(schema.items ?? {}));
+    case "string":
+      return "x".repeat(schema.minLength ?? 0);
+    case "number":
+    case "integer":
+      return schema.minimum !== undefined && schema.minimum > 0 ? schema.minimum : Math.min(0, schema.maximum ?? 0);
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
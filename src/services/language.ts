@@ -0,0 +1,169 @@
+/**
+ * language.ts — Offline language identification
+ * ------------------------------------------------------------
+ * - English, Nigerian Pidgin, Yoruba, Hausa, Igbo
+ *   (ISO 639 codes: en, pcm, yo, ha, ig)
+ * - Function-word lexicons scored per token, diacritics folded so
+ *   unaccented social posts still match; letters unique to one
+ *   language (Hausa ɓ ɗ ƙ, Igbo ị ụ ṅ, Yoruba ẹ ṣ) add weight
+ * - null when the text is too short or matches nothing
+ * - Local sentiment for the Nigerian languages: English AFINN
+ *   (posts are often code-mixed) plus per-language words
+ * ------------------------------------------------------------
+ */
+
+import Sentiment from "sentiment";
+import englishLabels from "sentiment/languages/en/labels.json";
+
+export const LANGUAGES = ["en", "pcm", "yo", "ha", "ig"] as const;
+export type Language = (typeof LANGUAGES)[number];
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  pcm: "Nigerian Pidgin",
+  yo: "Yoruba",
+  ha: "Hausa",
+  ig: "Igbo",
+};
+
+const MIN_TOKENS = 3;
+const MIN_SCORE = 0.1; // weighted hits per token
+
+const LEXICONS: Record<Language, string[]> = {
+  en: [
+    "the", "and", "is", "are", "was", "were", "of", "to", "in", "that", "for", "with", "have", "has", "had",
+    "this", "it", "not", "be", "they", "their", "will", "on", "by", "from", "at", "as", "which", "would",
+    "been", "said", "its", "an", "or", "but", "about", "there", "who", "what", "when", "after", "than",
+    "also", "into", "more", "our", "your", "my", "we", "you", "can", "should", "because",
+  ],
+  pcm: [
+    "dey", "wetin", "weytin", "abeg", "una", "wahala", "sabi", "don", "dem", "pikin", "oga", "wey", "comot",
+    "shey", "sef", "jare", "chop", "waka", "dis", "dat", "wan", "sha", "oya", "kuku", "palava", "na", "fit",
+    "nor", "naim", "abi", "gbege", "yawa", "wia", "tori", "sey", "wen", "yeye", "mumu", "ehen", "nawa",
+  ],
+  yo: [
+    "ni", "ti", "ati", "awon", "won", "mo", "si", "fun", "naa", "yii", "sugbon", "emi", "iwo", "oun", "je",
+    "lati", "pelu", "gbogbo", "nitori", "nigba", "ohun", "eyi", "owo", "ise", "se", "fe", "mi", "re", "yin",
+    "bayi", "rara", "jowo", "ki", "lo", "wa", "ri", "ile", "oja", "tabi", "nkan", "eniyan", "ibi", "ko",
+  ],
+  ha: [
+    "da", "ba", "ya", "ta", "suna", "wannan", "kuma", "amma", "cikin", "akwai", "kudi", "mutane", "sun",
+    "zai", "domin", "shi", "ita", "nan", "yadda", "wani", "wata", "ina", "kai", "ke", "mu", "su", "ce",
+    "sai", "tare", "saboda", "bayan", "kan", "don", "har", "babu", "yanzu", "duk", "ake", "yake", "gaskiya",
+    "abin", "wadanda", "inda", "aka", "ne",
+  ],
+  ig: [
+    "na", "nke", "bu", "ka", "ndi", "gi", "anyi", "ha", "di", "ego", "maka", "mana", "nwere", "ihe", "otu",
+    "kwa", "onye", "ya", "ga", "adighi", "ebe", "mgbe", "unu", "ahu", "ozo", "kedu", "biko", "nwanne",
+    "ulo", "oru", "ike", "obi", "eziokwu", "nne", "nna",
+  ],
+};
+
+// letters that (nearly) only one of the languages uses
+const LETTER_HINTS: { pattern: RegExp; language: Language; weight: number }[] = [
+  { pattern: /[ɓɗƙƴ]/iu, language: "ha", weight: 0.25 },
+  { pattern: /[ịụṅ]/iu, language: "ig", weight: 0.25 },
+  { pattern: /[ẹṣ]/iu, language: "yo", weight: 0.25 },
+  { pattern: /ọ/iu, language: "yo", weight: 0.1 },
+  { pattern: /ọ/iu, language: "ig", weight: 0.1 },
+];
+
+// words shared between lexicons ("na", "ya", "don", …) count half
+const WORD_WEIGHTS = new Map<string, Map<Language, number>>();
+for (const language of LANGUAGES) {
+  for (const word of LEXICONS[language]) {
+    if (!WORD_WEIGHTS.has(word)) WORD_WEIGHTS.set(word, new Map());
+    WORD_WEIGHTS.get(word)!.set(language, 1);
+  }
+}
+for (const weights of WORD_WEIGHTS.values()) {
+  if (weights.size > 1) for (const language of weights.keys()) weights.set(language, 0.5);
+}
+
+/** "ẹ̀" → "e"; keeps hooked Hausa letters, which don't decompose */
+export function foldDiacritics(text: string) {
+  return text.normalize("NFD").replace(/\p{M}/gu, "").normalize("NFC");
+}
+
+function tokenize(text: string) {
+  return foldDiacritics(text)
+    .toLowerCase()
+    .replace(/https?:\/\/\S+|[@#]\w+/g, " ") // links, handles and hashtags say nothing about the language
+    .replace(/[^\p{L}]+/gu, " ")
+    .split(" ")
+    .filter((t) => t.length > 1);
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Detection
+ * ------------------------------------------------------------ */
+export function detectLanguage(text: string): { language: Language | null; confidence: number } {
+  const tokens = tokenize(text);
+  if (tokens.length < MIN_TOKENS) return { language: null, confidence: 0 };
+
+  const scores = Object.fromEntries(LANGUAGES.map((l) => [l, 0])) as Record<Language, number>;
+  for (const token of tokens) {
+    const weights = WORD_WEIGHTS.get(token);
+    if (!weights) continue;
+    for (const [language, weight] of weights) scores[language] += weight;
+  }
+  for (const language of LANGUAGES) scores[language] /= tokens.length;
+  for (const hint of LETTER_HINTS) {
+    if (hint.pattern.test(text)) scores[hint.language] += hint.weight;
+  }
+
+  const ranked = [...LANGUAGES].sort((a, b) => scores[b] - scores[a]);
+  const [best, second] = ranked;
+  if (scores[best] < MIN_SCORE) return { language: null, confidence: 0 };
+
+  // margin over the runner-up, so code-mixed text reads as less certain
+  const confidence = Math.min(1, (scores[best] - scores[second]) / scores[best] + scores[best]);
+  return { language: best, confidence: Math.round(confidence * 100) / 100 };
+}
+
+export function parseLanguage(value: unknown): Language | null {
+  if (typeof value !== "string") return null;
+  const code = value.trim().toLowerCase();
+  return (LANGUAGES as readonly string[]).includes(code) ? (code as Language) : null;
+}
+
+/** Name for prompts; English when unknown */
+export function languageName(language: string | null | undefined) {
+  return LANGUAGE_NAMES[parseLanguage(language) ?? "en"];
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ Local sentiment
+ * ------------------------------------------------------------ */
+// AFINN-style scores (-5..+5) on diacritic-folded words
+const SENTIMENT_EXTRAS: Partial<Record<Language, Record<string, number>>> = {
+  pcm: {
+    wahala: -2, yawa: -2, gbege: -2, palava: -2, mumu: -2, yeye: -2, nawa: -1, ole: -3, thief: -3,
+    scammer: -3, "419": -3, vex: -2, craze: -2, correct: 2, sweet: 2,
+  },
+  yo: {
+    ole: -3, jibiti: -3, buru: -2, ojukokoro: -3, iro: -2, wahala: -2, ibinu: -2,
+    dara: 2, daadaa: 2, ire: 2, ayo: 3, ope: 2,
+  },
+  ha: {
+    barawo: -3, barayi: -3, zamba: -3, damfara: -3, matsala: -2, mummuna: -2, karya: -2, fushi: -2,
+    kyau: 2, nagari: 2, godiya: 2, farin: 1, gaskiya: 1,
+  },
+  ig: {
+    oshi: -3, aghugho: -3, ojoo: -2, nsogbu: -2, ugha: -2, iwe: -2,
+    mma: 2, daalu: 2, obiuto: 3, ezigbo: 2,
+  },
+};
+
+// registered as separate languages: `analyze(…, { extras })` writes into
+// the shared English labels and would leak these words into English scoring
+const sentiment = new Sentiment();
+for (const [code, extras] of Object.entries(SENTIMENT_EXTRAS)) {
+  sentiment.registerLanguage(code, { labels: { ...englishLabels, ...extras } });
+}
+
+/** `sentiment` analysis in the text's language (English labels when unknown) */
+export function analyzeLocalSentiment(text: string, language: string | null | undefined) {
+  const code = parseLanguage(language);
+  return sentiment.analyze(foldDiacritics(text), { language: code && SENTIMENT_EXTRAS[code] ? code : "en" });
+}
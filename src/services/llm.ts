@@ -0,0 +1,300 @@
+/**
+ * llm.ts — One LLM client for every model call
+ * ------------------------------------------------------------
+ * - GroqProvider              → api.groq.com (production)
+ * - OpenAICompatibleProvider  → any /chat/completions endpoint
+ *   (Ollama, vLLM, llama.cpp, LM Studio…)
+ * - FakeLlmProvider           → deterministic, no network (tests)
+ * - LLM_PROVIDER=groq|openai|fake picks one per environment
+ *   (default: groq)
+ * - Models per task: LLM_MODEL_<TASK> (e.g. LLM_MODEL_POST_SENTIMENT),
+ *   else LLM_MODEL, else the provider's default
+ * - completeJson() validates the reply against a JSON schema,
+ *   repairs common formatting slips and re-asks the model with the
+ *   validation errors; every attempt has a timeout
+ * ------------------------------------------------------------
+ */
+
+import Groq from "groq-sdk";
+import fetch from "node-fetch";
+import { JsonSchema, sampleFromSchema, validateJson } from "./json-schema";
+
+export type LlmTask =
+  | "post-sentiment"
+  | "coverage-sentiment"
+  | "claim-verification"
+  | "response-draft"
+  | "crisis-scenario";
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export type CompletionRequest = {
+  task: LlmTask;
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens?: number;
+  schema?: JsonSchema; // set for JSON completions
+  timeoutMs: number;
+};
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  /** Raw completion text */
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export class LlmError extends Error {
+  constructor(public provider: string, message: string, public retryable = false) {
+    super(`${provider}: ${message}`);
+  }
+}
+
+/** The model never produced output matching the schema */
+export class LlmOutputError extends LlmError {
+  constructor(provider: string, public task: LlmTask, public errors: string[], public raw: string) {
+    super(provider, `invalid ${task} output after retries (${errors.slice(0, 3).join("; ")})`);
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS) || 30_000;
+const JSON_RETRIES = Number(process.env.LLM_JSON_RETRIES || 2); // "0" is kept, unset / empty → 2
+const JSON_ATTEMPTS = 1 + (Number.isInteger(JSON_RETRIES) && JSON_RETRIES >= 0 ? JSON_RETRIES : 2);
+const RETRY_DELAY_MS = 500;
+
+function isRetryableStatus(status: number | undefined) {
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Groq
+ * ------------------------------------------------------------ */
+export class GroqProvider implements LlmProvider {
+  readonly name = "groq";
+  readonly defaultModel = "llama-3.3-70b-versatile";
+  private client: Groq;
+
+  constructor(apiKey: string) {
+    this.client = new Groq({ apiKey });
+  }
+
+  async complete({ model, messages, temperature, maxTokens, schema, timeoutMs }: CompletionRequest) {
+    try {
+      const res = await this.client.chat.completions.create(
+        {
+          model,
+          messages,
+          temperature,
+          max_tokens: maxTokens,
+          ...(schema && { response_format: { type: "json_object" as const } }),
+        },
+        { timeout: timeoutMs, maxRetries: 0 } // retries are ours
+      );
+      return res.choices[0]?.message?.content ?? "";
+    } catch (err: any) {
+      const status = err instanceof Groq.APIError ? err.status : undefined;
+      throw new LlmError(this.name, err.message ?? String(err), isRetryableStatus(status));
+    }
+  }
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ OpenAI-compatible endpoint
+ * ------------------------------------------------------------ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  readonly name = "openai";
+
+  constructor(private config: { baseUrl: string; apiKey?: string; defaultModel: string }) {}
+
+  get defaultModel() {
+    return this.config.defaultModel;
+  }
+
+  async complete({ model, messages, temperature, maxTokens, schema, timeoutMs }: CompletionRequest) {
+    let res;
+    try {
+      res = await fetch(`${this.config.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          temperature,
+          ...(maxTokens && { max_tokens: maxTokens }),
+          ...(schema && { response_format: { type: "json_object" } }),
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (err: any) {
+      throw new LlmError(this.name, err.name === "TimeoutError" ? `timed out after ${timeoutMs}ms` : err.message, true);
+    }
+
+    const data = (await res.json().catch(() => ({}))) as any;
+    if (!res.ok) {
+      throw new LlmError(this.name, data.error?.message ?? `HTTP ${res.status}`, isRetryableStatus(res.status));
+    }
+    return data.choices?.[0]?.message?.content ?? "";
+  }
+}
+
+/* ------------------------------------------------------------
+ * 3️⃣ Fake (tests)
+ * ------------------------------------------------------------ */
+/**
+ * Replies with scripted responses per task (in order), then falls
+ * back to the smallest schema-valid JSON or an echo of the last user
+ * message. Every request is kept in `calls`.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = "fake";
+  readonly defaultModel = "fake-model";
+  readonly calls: CompletionRequest[] = [];
+
+  constructor(private scripted: Partial<Record<LlmTask, string[]>> = {}) {}
+
+  script(task: LlmTask, ...responses: string[]) {
+    (this.scripted[task] ??= []).push(...responses);
+    return this;
+  }
+
+  async complete(request: CompletionRequest) {
+    this.calls.push(request);
+    const next = this.scripted[request.task]?.shift();
+    if (next !== undefined) return next;
+    if (request.schema) return JSON.stringify(sampleFromSchema(request.schema));
+    const lastUser = [...request.messages].reverse().find((m) => m.role === "user");
+    return `[fake ${request.task}] ${(lastUser?.content ?? "").trim().slice(0, 200)}`;
+  }
+}
+
+/* ------------------------------------------------------------
+ * 4️⃣ Provider selection
+ * ------------------------------------------------------------ */
+let provider: LlmProvider | null = null;
+
+export function getLlmProvider(): LlmProvider {
+  if (provider) return provider;
+
+  const choice = (process.env.LLM_PROVIDER || "groq").toLowerCase();
+  if (choice === "groq") {
+    if (!process.env.GROQ_API_KEY) throw new LlmError("groq", "GROQ_API_KEY is not set");
+    provider = new GroqProvider(process.env.GROQ_API_KEY);
+  } else if (choice === "openai") {
+    const baseUrl = process.env.LLM_BASE_URL;
+    const defaultModel = process.env.LLM_MODEL;
+    if (!baseUrl || !defaultModel) throw new LlmError("openai", "LLM_BASE_URL and LLM_MODEL must be set");
+    provider = new OpenAICompatibleProvider({ baseUrl, apiKey: process.env.LLM_API_KEY || undefined, defaultModel });
+  } else if (choice === "fake") {
+    provider = new FakeLlmProvider();
+  } else {
+    throw new LlmError(choice, "unknown LLM_PROVIDER (expected groq, openai or fake)");
+  }
+
+  console.log(`🤖 LLM provider: ${provider.name}`);
+  return provider;
+}
+
+/** Replaces the provider (tests, scripts); null re-reads the environment */
+export function setLlmProvider(next: LlmProvider | null) {
+  provider = next;
+}
+
+export function modelFor(task: LlmTask, p: LlmProvider = getLlmProvider()) {
+  const taskKey = `LLM_MODEL_${task.toUpperCase().replace(/-/g, "_")}`;
+  return process.env[taskKey] || process.env.LLM_MODEL || p.defaultModel;
+}
+
+/* ------------------------------------------------------------
+ * 🧩 JSON repair
+ * ------------------------------------------------------------ */
+/** Strips code fences and surrounding prose, drops trailing commas */
+function parseLooseJson(raw: string): unknown {
+  let text = raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  const start = text.search(/[{[]/);
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  if (start === -1 || end < start) throw new SyntaxError("no JSON object found");
+  text = text.slice(start, end + 1).replace(/,\s*([}\]])/g, "$1");
+  return JSON.parse(text);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/* ------------------------------------------------------------
+ * 5️⃣ Completions
+ * ------------------------------------------------------------ */
+type CompletionOptions = { temperature?: number; maxTokens?: number; timeoutMs?: number };
+
+function buildRequest(task: LlmTask, messages: ChatMessage[], options: CompletionOptions, p: LlmProvider) {
+  return {
+    task,
+    model: modelFor(task, p),
+    messages,
+    temperature: options.temperature ?? 0.2,
+    maxTokens: options.maxTokens,
+    timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+  };
+}
+
+/** Calls the provider, retrying once on timeouts, rate limits and 5xx */
+async function callWithRetry(p: LlmProvider, request: CompletionRequest) {
+  try {
+    return await p.complete(request);
+  } catch (err) {
+    if (!(err instanceof LlmError) || !err.retryable) throw err;
+    await sleep(RETRY_DELAY_MS);
+    return p.complete(request);
+  }
+}
+
+/** Plain-text completion (trimmed); throws LlmError */
+export async function completeText(task: LlmTask, messages: ChatMessage[], options: CompletionOptions = {}) {
+  const p = getLlmProvider();
+  const text = (await callWithRetry(p, buildRequest(task, messages, options, p))).trim();
+  if (!text) throw new LlmError(p.name, `empty ${task} completion`, true);
+  return text;
+}
+
+/**
+ * JSON completion validated against `schema`. Malformed or invalid
+ * replies are sent back to the model with the errors, up to
+ * 1 + LLM_JSON_RETRIES attempts; then LlmOutputError is thrown.
+ */
+export async function completeJson<T>(
+  task: LlmTask,
+  messages: ChatMessage[],
+  schema: JsonSchema,
+  options: CompletionOptions = {}
+): Promise<T> {
+  const p = getLlmProvider();
+  const conversation = [...messages];
+  let errors: string[] = [];
+  let raw = "";
+
+  for (let attempt = 1; attempt <= JSON_ATTEMPTS; attempt++) {
+    raw = await callWithRetry(p, { ...buildRequest(task, conversation, options, p), schema });
+
+    let value: unknown;
+    try {
+      value = parseLooseJson(raw);
+      errors = validateJson(value, schema);
+    } catch (err: any) {
+      errors = [`not valid JSON: ${err.message}`];
+    }
+    if (!errors.length) return value as T;
+
+    console.warn(`⚠️ LLM ${task} output rejected (attempt ${attempt}/${JSON_ATTEMPTS}): ${errors.join("; ")}`);
+    conversation.push(
+      { role: "assistant", content: raw },
+      {
+        role: "user",
+        content: `That reply was invalid:\n${errors.map((e) => `- ${e}`).join("\n")}\n\nReply again with only a JSON value matching this schema:\n${JSON.stringify(schema)}`,
+      }
+    );
+  }
+
+  throw new LlmOutputError(p.name, task, errors, raw);
+}
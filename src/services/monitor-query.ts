@@ -0,0 +1,389 @@
+/**
+ * monitor-query.ts — Boolean keyword query language for monitors
+ * ------------------------------------------------------------
+ * Syntax (operators are UPPERCASE):
+ *   zenith AND (debit OR "card blocked")    boolean logic, () grouping
+ *   zenith -refund / zenith NOT refund      exclusion
+ *   zenith bank                             adjacent terms = implicit AND
+ *   "zenith bank"                           exact phrase
+ *   #zenithbank  @zenithbank                hashtag / mention tokens only
+ *   zenith*                                 prefix match
+ *   "zenith" NEAR/5 "debit"                 ≤ 5 words apart, either order
+ *
+ * Matching is on word boundaries and case-insensitive. A plain word
+ * also matches the body of a hashtag/mention (`zenith` ↔ `#zenith`).
+ *
+ * Queries are compiled once per monitor (cached by id + updatedAt)
+ * and the matcher returns the terms that hit, used for
+ * DetectedPost.matchedKeywords.
+ * ------------------------------------------------------------
+ */
+
+type TokenKind = "word" | "hashtag" | "mention";
+
+interface TextToken {
+  text: string; // lowercased, without #/@ prefix
+  kind: TokenKind;
+}
+
+interface TermNode {
+  type: "term";
+  value: string;
+  kind: TokenKind;
+  prefix: boolean;
+  source: string;
+}
+
+interface PhraseNode {
+  type: "phrase";
+  words: TermNode[];
+  source: string;
+}
+
+type LeafNode = TermNode | PhraseNode;
+
+export type QueryNode =
+  | LeafNode
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "near"; left: LeafNode; right: LeafNode; distance: number };
+
+export interface QueryMatch {
+  matched: boolean;
+  terms: string[]; // source text of positive terms that matched
+}
+
+export interface CompiledQuery {
+  source: string;
+  ast: QueryNode | null; // null → matches nothing
+  match(text: string): QueryMatch;
+}
+
+export class QueryParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at position ${position})`);
+  }
+}
+
+const DEFAULT_NEAR_DISTANCE = 5;
+const WORD_RE = /[#@]?[\p{L}\p{N}_]+/gu;
+
+/* ------------------------------------------------------------
+ * 🧩 Text tokenization (shared by posts and query terms)
+ * ------------------------------------------------------------ */
+export function tokenizeText(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  for (const m of text.toLowerCase().matchAll(WORD_RE)) {
+    const raw = m[0];
+    if (raw.startsWith("#")) tokens.push({ text: raw.slice(1), kind: "hashtag" });
+    else if (raw.startsWith("@")) tokens.push({ text: raw.slice(1), kind: "mention" });
+    else tokens.push({ text: raw, kind: "word" });
+  }
+  return tokens;
+}
+
+function leafFromText(text: string, source: string, position: number): LeafNode {
+  const prefix = text.endsWith("*");
+  const words = tokenizeText(prefix ? text.slice(0, -1) : text).map<TermNode>((t) => ({
+    type: "term",
+    value: t.text,
+    kind: t.kind,
+    prefix: false,
+    source,
+  }));
+
+  if (words.length === 0) throw new QueryParseError(`Empty term "${source}"`, position);
+  if (words.length === 1) return { ...words[0], prefix };
+  if (prefix) words[words.length - 1].prefix = true;
+  return { type: "phrase", words, source };
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Lexer
+ * ------------------------------------------------------------ */
+type Lexeme =
+  | { kind: "lparen" | "rparen" | "and" | "or" | "not"; pos: number }
+  | { kind: "near"; distance: number; pos: number }
+  | { kind: "leaf"; leaf: LeafNode; pos: number };
+
+function lex(input: string): Lexeme[] {
+  const out: Lexeme[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "(" || ch === ")") {
+      out.push({ kind: ch === "(" ? "lparen" : "rparen", pos: i });
+      i++;
+    } else if (ch === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      out.push({ kind: "not", pos: i });
+      i++;
+    } else if (ch === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) throw new QueryParseError("Unterminated quote", i);
+      const phrase = input.slice(i + 1, end);
+      out.push({ kind: "leaf", leaf: leafFromText(phrase, phrase.trim(), i), pos: i });
+      i = end + 1;
+    } else {
+      let end = i;
+      while (end < input.length && !/[\s()"]/.test(input[end])) end++;
+      const word = input.slice(i, end);
+
+      const near = /^NEAR(?:\/(\d+))?$/.exec(word);
+      if (word === "AND" || word === "OR" || word === "NOT") {
+        out.push({ kind: word.toLowerCase() as "and" | "or" | "not", pos: i });
+      } else if (near) {
+        out.push({ kind: "near", distance: near[1] ? Number(near[1]) : DEFAULT_NEAR_DISTANCE, pos: i });
+      } else {
+        out.push({ kind: "leaf", leaf: leafFromText(word, word, i), pos: i });
+      }
+      i = end;
+    }
+  }
+
+  return out;
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ Parser (recursive descent: OR < AND < NOT < NEAR)
+ * ------------------------------------------------------------ */
+export function parseQuery(input: string): QueryNode {
+  const lexemes = lex(input);
+  let i = 0;
+
+  const peek = () => lexemes[i];
+  const endPos = () => (peek() ? peek().pos : input.length);
+
+  function parseOr(): QueryNode {
+    const children = [parseAnd()];
+    while (peek()?.kind === "or") {
+      i++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  }
+
+  function parseAnd(): QueryNode {
+    const children = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (next?.kind === "and") {
+        i++;
+        children.push(parseUnary());
+      } else if (next && (next.kind === "leaf" || next.kind === "not" || next.kind === "lparen")) {
+        children.push(parseUnary()); // implicit AND
+      } else {
+        break;
+      }
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  }
+
+  function parseUnary(): QueryNode {
+    if (peek()?.kind === "not") {
+      i++;
+      return { type: "not", child: parseUnary() };
+    }
+    return parseNear();
+  }
+
+  function parseNear(): QueryNode {
+    const first = parsePrimary();
+    if (peek()?.kind !== "near") return first;
+
+    // a NEAR/n b NEAR/m c → (a NEAR/n b) AND (b NEAR/m c)
+    const pairs: QueryNode[] = [];
+    let left = first;
+    while (peek()?.kind === "near") {
+      const op = peek() as Extract<Lexeme, { kind: "near" }>;
+      i++;
+      const right = parsePrimary();
+      if (!isLeaf(left) || !isLeaf(right)) {
+        throw new QueryParseError("NEAR only joins words or quoted phrases", op.pos);
+      }
+      pairs.push({ type: "near", left, right, distance: op.distance });
+      left = right;
+    }
+    return pairs.length === 1 ? pairs[0] : { type: "and", children: pairs };
+  }
+
+  function parsePrimary(): QueryNode {
+    const next = peek();
+    if (!next) throw new QueryParseError("Unexpected end of query", input.length);
+
+    if (next.kind === "lparen") {
+      i++;
+      const node = parseOr();
+      if (peek()?.kind !== "rparen") throw new QueryParseError("Missing closing parenthesis", endPos());
+      i++;
+      return node;
+    }
+    if (next.kind === "leaf") {
+      i++;
+      return next.leaf;
+    }
+    throw new QueryParseError(`Unexpected ${next.kind.toUpperCase()}`, next.pos);
+  }
+
+  if (lexemes.length === 0) throw new QueryParseError("Query is empty", 0);
+  const ast = parseOr();
+  if (i < lexemes.length) throw new QueryParseError("Unexpected token", endPos());
+  // "NOT refund" (or "zenith OR -refund") would match almost every post
+  if (!requiresPositiveTerm(ast)) throw new QueryParseError("Query needs a term that is not negated", 0);
+  return ast;
+}
+
+function isLeaf(node: QueryNode): node is LeafNode {
+  return node.type === "term" || node.type === "phrase";
+}
+
+/** Every way the node can match needs at least one positive term */
+function requiresPositiveTerm(node: QueryNode): boolean {
+  switch (node.type) {
+    case "term":
+    case "phrase":
+    case "near":
+      return true;
+    case "not":
+      return false;
+    case "and":
+      return node.children.some(requiresPositiveTerm);
+    case "or":
+      return node.children.every(requiresPositiveTerm);
+  }
+}
+
+/* ------------------------------------------------------------
+ * 3️⃣ Evaluation
+ * ------------------------------------------------------------ */
+function termMatches(term: TermNode, token: TextToken) {
+  // hashtag/mention terms only match that token kind; words match any body
+  if (term.kind !== "word" && term.kind !== token.kind) return false;
+  return term.prefix ? token.text.startsWith(term.value) : token.text === term.value;
+}
+
+/** [start, end] token spans where the leaf occurs */
+function occurrences(leaf: LeafNode, tokens: TextToken[]): Array<[number, number]> {
+  const words = leaf.type === "term" ? [leaf] : leaf.words;
+  const spans: Array<[number, number]> = [];
+  for (let start = 0; start + words.length <= tokens.length; start++) {
+    if (words.every((w, k) => termMatches(w, tokens[start + k]))) {
+      spans.push([start, start + words.length - 1]);
+    }
+  }
+  return spans;
+}
+
+function evaluate(node: QueryNode, tokens: TextToken[], terms: Set<string>): boolean {
+  switch (node.type) {
+    case "term":
+    case "phrase": {
+      const hit = occurrences(node, tokens).length > 0;
+      if (hit) terms.add(node.source);
+      return hit;
+    }
+    case "and": {
+      const local = new Set<string>();
+      const ok = node.children.every((c) => evaluate(c, tokens, local));
+      if (ok) local.forEach((t) => terms.add(t));
+      return ok;
+    }
+    case "or": {
+      let ok = false;
+      for (const child of node.children) ok = evaluate(child, tokens, terms) || ok;
+      return ok;
+    }
+    case "not":
+      return !evaluate(node.child, tokens, new Set());
+    case "near": {
+      const a = occurrences(node.left, tokens);
+      const b = occurrences(node.right, tokens);
+      const hit = a.some(([as, ae]) =>
+        b.some(([bs, be]) => {
+          const gap = as <= bs ? bs - ae - 1 : as - be - 1;
+          return gap <= node.distance;
+        })
+      );
+      if (hit) {
+        terms.add(node.left.source);
+        terms.add(node.right.source);
+      }
+      return hit;
+    }
+  }
+}
+
+function compileAst(source: string, ast: QueryNode | null): CompiledQuery {
+  return {
+    source,
+    ast,
+    match(text: string) {
+      if (!ast) return { matched: false, terms: [] };
+      const terms = new Set<string>();
+      const matched = evaluate(ast, tokenizeText(text), terms);
+      return { matched, terms: matched ? [...terms] : [] };
+    },
+  };
+}
+
+export function compileQuery(source: string): CompiledQuery {
+  return compileAst(source, parseQuery(source));
+}
+
+/* ------------------------------------------------------------
+ * 4️⃣ Monitor → compiled query
+ * ------------------------------------------------------------ */
+export interface MonitorQueryFields {
+  id: string;
+  query: string | null;
+  keywords: string[];
+  excludeKeywords: string[];
+  updatedAt: Date;
+}
+
+/**
+ * Builds the effective query for a monitor:
+ *   (query  or, without one,  keyword₁ OR keyword₂ …)  AND NOT (exclude₁ OR exclude₂ …)
+ * A query replaces the legacy keywords; each keyword is matched as an
+ * exact word / phrase.
+ */
+export function buildMonitorQuery(monitor: Omit<MonitorQueryFields, "id" | "updatedAt">): CompiledQuery {
+  const keywordLeaves = (list: string[]) =>
+    list.filter((k) => tokenizeText(k).length > 0).map((k) => leafFromText(k, k, 0));
+
+  const include: QueryNode | null = monitor.query?.trim()
+    ? parseQuery(monitor.query)
+    : keywordLeaves(monitor.keywords).length
+    ? { type: "or", children: keywordLeaves(monitor.keywords) }
+    : null;
+
+  const excludes = keywordLeaves(monitor.excludeKeywords);
+  const ast: QueryNode | null =
+    include && excludes.length
+      ? { type: "and", children: [include, { type: "not", child: { type: "or", children: excludes } }] }
+      : include;
+
+  const source = [
+    monitor.query?.trim() || monitor.keywords.join(" OR "),
+    ...(excludes.length ? [`-(${monitor.excludeKeywords.join(" OR ")})`] : []),
+  ].join(" ");
+
+  return compileAst(source, ast);
+}
+
+const compiled = new Map<string, { version: number; query: CompiledQuery }>();
+
+/** Compiled matcher for a monitor, rebuilt only when the monitor changes */
+export function getMonitorMatcher(monitor: MonitorQueryFields): CompiledQuery {
+  const version = monitor.updatedAt.getTime();
+  const cached = compiled.get(monitor.id);
+  if (cached && cached.version === version) return cached.query;
+
+  const query = buildMonitorQuery(monitor);
+  compiled.set(monitor.id, { version, query });
+  return query;
+}
@@ -0,0 +1,107 @@
+/**
+ * monitor-registry.service.ts — Live monitor cache for detection
+ * ------------------------------------------------------------
+ * - Keeps active monitors (+ brand) in memory for the detection worker
+ * - API writes publish on a Redis channel; every process subscribed
+ *   via startMonitorRegistry() reloads on the next job
+ * - A periodic TTL reload covers missed pub/sub messages
+ * ------------------------------------------------------------
+ */
+
+import IORedis from "ioredis";
+import { Brand, Monitor } from "@prisma/client";
+import { prisma } from "../db/client";
+
+export const MONITOR_CHANNEL = "konfam:monitors:changed";
+const RELOAD_TTL_MS = 60 * 1000;
+
+export type ActiveMonitor = Monitor & { brand: Brand };
+
+let cache: ActiveMonitor[] | null = null;
+let loadedAt = 0;
+// bumped by every invalidation: a load that started earlier must not fill the cache
+let generation = 0;
+let loading: { generation: number; promise: Promise<ActiveMonitor[]> } | null = null;
+
+let publisher: IORedis | null = null;
+let subscriber: IORedis | null = null;
+
+function createConnection() {
+  return new IORedis(process.env.REDIS_URL!, {
+    maxRetriesPerRequest: null,
+    enableReadyCheck: false,
+  });
+}
+
+/** Publishing runs next to API requests: give up quickly while Redis is away */
+function createPublisher() {
+  const connection = new IORedis(process.env.REDIS_URL!, {
+    maxRetriesPerRequest: 1,
+    commandTimeout: 5000,
+  });
+  connection.on("error", () => {}); // failed publishes are logged below
+  return connection;
+}
+
+async function loadMonitors(startedAt: number) {
+  const monitors = await prisma.monitor.findMany({
+    where: { isActive: true, brand: { isActive: true } },
+    include: { brand: true },
+  });
+  if (startedAt === generation) {
+    cache = monitors;
+    loadedAt = Date.now();
+  }
+  return monitors;
+}
+
+/** Active monitors of active brands — served from memory when fresh */
+export async function getActiveMonitors(): Promise<ActiveMonitor[]> {
+  if (cache && Date.now() - loadedAt < RELOAD_TTL_MS) return cache;
+  if (loading?.generation === generation) return loading.promise;
+
+  const current = {
+    generation,
+    promise: loadMonitors(generation).finally(() => {
+      if (loading === current) loading = null;
+    }),
+  };
+  loading = current;
+  return current.promise;
+}
+
+export function invalidateMonitors() {
+  generation++;
+  cache = null;
+}
+
+/**
+ * Called after any monitor / brand write so running workers reload.
+ * Fire-and-forget: the TTL reload covers a lost message.
+ */
+export function publishMonitorChange(reason: string) {
+  invalidateMonitors();
+  publisher ??= createPublisher();
+  publisher
+    .publish(MONITOR_CHANNEL, JSON.stringify({ reason, at: Date.now() }))
+    .catch((err) => console.warn(`⚠️ Could not publish monitor change (${reason}): ${err.message}`));
+}
+
+/** Subscribes this process to monitor changes (detection workers) */
+export async function startMonitorRegistry() {
+  if (subscriber) return;
+  subscriber = createConnection();
+  subscriber.on("message", (channel, message) => {
+    if (channel !== MONITOR_CHANNEL) return;
+    invalidateMonitors();
+    console.log(`🔄 Monitors changed — reloading on next job (${message})`);
+  });
+  await subscriber.subscribe(MONITOR_CHANNEL);
+  console.log("📡 Monitor registry subscribed for live reload");
+}
+
+export async function stopMonitorRegistry() {
+  await Promise.all([subscriber?.quit(), publisher?.quit()]);
+  subscriber = null;
+  publisher = null;
+}
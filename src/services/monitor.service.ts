@@ -0,0 +1,203 @@
+/**
+ * monitor.service.ts — Monitor management
+ * ------------------------------------------------------------
+ * - Validates monitor input (threshold ranges, keyword lists, query syntax)
+ * - Writes monitors and notifies running detection workers
+ * ------------------------------------------------------------
+ */
+
+import { Monitor, Platform, Prisma } from "@prisma/client";
+import { prisma } from "../db/client";
+import { publishMonitorChange } from "./monitor-registry.service";
+import { parseQuery } from "./monitor-query";
+
+/** API value for a monitor that listens on every platform (stored as null) */
+export const ALL_PLATFORMS = "ALL";
+
+/** Platforms a monitor can listen on (NEWS threats come from scraped coverage) */
+export const SOCIAL_PLATFORMS = Object.values(Platform).filter((p) => p !== Platform.NEWS);
+
+const MAX_KEYWORDS = 50;
+const MAX_KEYWORD_LENGTH = 100;
+
+export type MonitorInput = Partial<{
+  name: string;
+  platform: Platform | null; // null = all platforms
+  keywords: string[];
+  excludeKeywords: string[];
+  query: string | null;
+  sentimentThreshold: number;
+  engagementThreshold: number;
+  engagementIncludesViews: boolean;
+  viralityThreshold: number;
+  checkIntervalSeconds: number;
+  isActive: boolean;
+}>;
+
+/* ------------------------------------------------------------
+ * 🧩 Validation
+ * ------------------------------------------------------------ */
+function validateKeywordList(value: unknown, field: string, required: boolean, errors: string[]) {
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array of strings`);
+    return undefined;
+  }
+
+  const seen = new Set<string>();
+  const keywords: string[] = [];
+  for (const raw of value) {
+    if (typeof raw !== "string" || !raw.trim()) {
+      errors.push(`${field} must only contain non-empty strings`);
+      return undefined;
+    }
+    const keyword = raw.trim();
+    if (keyword.length > MAX_KEYWORD_LENGTH) {
+      errors.push(`${field} entries must be at most ${MAX_KEYWORD_LENGTH} characters`);
+      return undefined;
+    }
+    // case-insensitive de-duplication, first spelling wins
+    if (seen.has(keyword.toLowerCase())) continue;
+    seen.add(keyword.toLowerCase());
+    keywords.push(keyword);
+  }
+
+  if (required && keywords.length === 0) errors.push(`${field} must contain at least one keyword`);
+  if (keywords.length > MAX_KEYWORDS) errors.push(`${field} can hold at most ${MAX_KEYWORDS} keywords`);
+  return keywords;
+}
+
+function validateNumber(
+  value: unknown,
+  field: string,
+  min: number,
+  max: number,
+  integer: boolean,
+  errors: string[]
+) {
+  if (
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    (integer && !Number.isInteger(value)) ||
+    value < min ||
+    value > max
+  ) {
+    errors.push(`${field} must be ${integer ? "an integer" : "a number"} between ${min} and ${max}`);
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Validates a create payload, or an update payload against the stored
+ * monitor (`existing`): rules spanning query / keywords / excludes are
+ * checked on the merged result. Only fields present in the body are returned.
+ */
+export function validateMonitorInput(
+  body: any,
+  existing: Pick<Monitor, "query" | "keywords" | "excludeKeywords"> | null = null
+) {
+  const partial = !!existing;
+  const errors: string[] = [];
+  const data: MonitorInput = {};
+  body = body ?? {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== "string" || body.name.trim().length < 2 || body.name.trim().length > 100) {
+      errors.push("name is required (2–100 characters)");
+    } else {
+      data.name = body.name.trim();
+    }
+  }
+
+  if (body.platform !== undefined) {
+    if (body.platform === null || body.platform === ALL_PLATFORMS) {
+      data.platform = null;
+    } else if (!SOCIAL_PLATFORMS.includes(body.platform)) {
+      errors.push(`platform must be ${ALL_PLATFORMS} or one of ${SOCIAL_PLATFORMS.join(", ")}`);
+    } else {
+      data.platform = body.platform;
+    }
+  }
+
+  if (body.query !== undefined) {
+    if (body.query === null || body.query === "") {
+      data.query = null;
+    } else if (typeof body.query !== "string" || body.query.length > 2000) {
+      errors.push("query must be a string of at most 2000 characters");
+    } else {
+      try {
+        parseQuery(body.query);
+        data.query = body.query.trim();
+      } catch (err: any) {
+        errors.push(`query is invalid: ${err.message}`);
+      }
+    }
+  }
+
+  if (body.keywords !== undefined || !partial) {
+    data.keywords = validateKeywordList(body.keywords ?? [], "keywords", false, errors);
+  }
+  if (body.excludeKeywords !== undefined) {
+    data.excludeKeywords = validateKeywordList(body.excludeKeywords, "excludeKeywords", false, errors);
+  }
+
+  const matchingChanged = ["query", "keywords", "excludeKeywords"].some((f) => body[f] !== undefined);
+  if (!errors.length && (!partial || matchingChanged)) {
+    const query = data.query !== undefined ? data.query : existing?.query;
+    const keywords = data.keywords ?? existing?.keywords ?? [];
+    const excludeKeywords = data.excludeKeywords ?? existing?.excludeKeywords ?? [];
+
+    // keywords may be empty only when a query drives matching
+    if (!query && !keywords.length) errors.push("keywords must contain at least one keyword when there is no query");
+
+    const include = new Set(keywords.map((k) => k.toLowerCase()));
+    const overlap = excludeKeywords.filter((k) => include.has(k.toLowerCase()));
+    if (overlap.length) errors.push(`keywords and excludeKeywords overlap: ${overlap.join(", ")}`);
+  }
+
+  if (body.sentimentThreshold !== undefined) {
+    data.sentimentThreshold = validateNumber(body.sentimentThreshold, "sentimentThreshold", -1, 1, false, errors);
+  }
+  if (body.engagementThreshold !== undefined) {
+    data.engagementThreshold = validateNumber(body.engagementThreshold, "engagementThreshold", 0, 10_000_000, true, errors);
+  }
+  if (body.engagementIncludesViews !== undefined) {
+    if (typeof body.engagementIncludesViews !== "boolean") errors.push("engagementIncludesViews must be a boolean");
+    else data.engagementIncludesViews = body.engagementIncludesViews;
+  }
+  if (body.viralityThreshold !== undefined) {
+    data.viralityThreshold = validateNumber(body.viralityThreshold, "viralityThreshold", 0, 100, false, errors);
+  }
+  if (body.checkIntervalSeconds !== undefined) {
+    data.checkIntervalSeconds = validateNumber(body.checkIntervalSeconds, "checkIntervalSeconds", 10, 86400, true, errors);
+  }
+
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== "boolean") errors.push("isActive must be a boolean");
+    else data.isActive = body.isActive;
+  }
+
+  return { data, errors };
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Writes (each one triggers a live reload)
+ * ------------------------------------------------------------ */
+export async function createMonitor(brandId: string, data: MonitorInput) {
+  const monitor = await prisma.monitor.create({
+    data: { ...(data as Prisma.MonitorUncheckedCreateInput), brandId },
+  });
+  publishMonitorChange(`created ${monitor.id}`);
+  return monitor;
+}
+
+export async function updateMonitor(monitorId: string, data: MonitorInput) {
+  const monitor = await prisma.monitor.update({ where: { id: monitorId }, data });
+  publishMonitorChange(`updated ${monitor.id}`);
+  return monitor;
+}
+
+/** Soft delete — keeps detected posts and threats linked to the monitor */
+export async function deactivateMonitor(monitorId: string) {
+  return updateMonitor(monitorId, { isActive: false });
+}
@@ -0,0 +1,235 @@
+/**
+ * polite-fetch.ts — HTTP client for crawling third-party sites
+ * ------------------------------------------------------------
+ * - Identifies as KonfamBot (no browser user-agent spoofing)
+ * - Honours robots.txt (cached per host) including Crawl-delay
+ * - Per-domain concurrency limit and minimum delay between requests
+ * - Conditional GET (ETag / Last-Modified) for pages we poll
+ * - Retries 429 / 5xx / network errors with backoff (Retry-After aware)
+ * - Only public addresses, redirects included (see url-guard.ts)
+ * ------------------------------------------------------------
+ */
+
+import { prisma } from "../db/client";
+import { ALLOW_ALL, DISALLOW_ALL, isPathAllowed, parseRobots, RobotsPolicy } from "./robots";
+import { assertPublicUrl, BlockedAddressError, guardedFetch } from "./url-guard";
+
+export const CRAWLER_USER_AGENT = process.env.CRAWLER_USER_AGENT || "KonfamBot/1.0";
+const ROBOTS_TOKEN = "KonfamBot";
+
+const DOMAIN_DELAY_MS = Number(process.env.CRAWL_DOMAIN_DELAY_MS) || 2000;
+const MAX_CONCURRENCY_PER_DOMAIN = Number(process.env.CRAWL_MAX_CONCURRENCY_PER_DOMAIN) || 1;
+const MAX_CRAWL_DELAY_SECONDS = 60; // ignore absurd Crawl-delay values
+const REQUEST_TIMEOUT_MS = 15_000;
+
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 2000;
+const MAX_BACKOFF_MS = 60_000;
+
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+const ROBOTS_ERROR_TTL_MS = 10 * 60 * 1000;
+
+export class RobotsDisallowedError extends Error {
+  constructor(public url: string) {
+    super(`Blocked by robots.txt: ${url}`);
+  }
+}
+
+export type PoliteResponse = {
+  url: string;
+  status: number;
+  ok: boolean;
+  notModified: boolean; // 304 on a conditional request
+  body: string;
+  contentType: string | null;
+};
+
+type FetchOptions = {
+  /** Send stored ETag / Last-Modified and remember the new ones */
+  conditional?: boolean;
+  accept?: string;
+};
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/* ------------------------------------------------------------
+ * 🧩 Per-domain limiter
+ * ------------------------------------------------------------ */
+type HostSlot = { active: number; waiting: (() => void)[]; nextStartAt: number };
+const hostSlots = new Map<string, HostSlot>();
+
+async function withHostSlot<T>(host: string, delayMs: number, fn: () => Promise<T>) {
+  let slot = hostSlots.get(host);
+  if (!slot) {
+    slot = { active: 0, waiting: [], nextStartAt: 0 };
+    hostSlots.set(host, slot);
+  }
+
+  // a released slot is handed straight to the next waiter
+  if (slot.active < MAX_CONCURRENCY_PER_DOMAIN) slot.active++;
+  else await new Promise<void>((resolve) => slot!.waiting.push(resolve));
+
+  try {
+    return await fn();
+  } finally {
+    const next = slot.waiting.shift();
+    if (next) next();
+    else slot.active--;
+  }
+}
+
+/** Reserves the next start time on the host so requests stay `delayMs` apart */
+async function spaceRequest(host: string, delayMs: number) {
+  const slot = hostSlots.get(host)!;
+  const startAt = Math.max(Date.now(), slot.nextStartAt);
+  slot.nextStartAt = startAt + delayMs;
+  await sleep(startAt - Date.now());
+}
+
+/* ------------------------------------------------------------
+ * 🧩 Retry / backoff
+ * ------------------------------------------------------------ */
+function retryAfterMs(header: string | null) {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffMs(attempt: number) {
+  const exponential = BACKOFF_BASE_MS * 2 ** (attempt - 1);
+  return Math.min(MAX_BACKOFF_MS, exponential + Math.random() * BACKOFF_BASE_MS);
+}
+
+async function requestWithRetry(url: string, host: string, delayMs: number, headers: Record<string, string>) {
+  for (let attempt = 1; ; attempt++) {
+    await spaceRequest(host, delayMs);
+    try {
+      const res = await guardedFetch(url, {
+        headers,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      const retryable = res.status === 429 || res.status >= 500;
+      if (!retryable || attempt >= MAX_ATTEMPTS) return res;
+
+      const wait = Math.min(MAX_BACKOFF_MS, retryAfterMs(res.headers.get("retry-after")) ?? backoffMs(attempt));
+      console.warn(`⏳ ${res.status} from ${host} — retry ${attempt}/${MAX_ATTEMPTS - 1} in ${Math.round(wait / 1000)}s`);
+      await sleep(wait);
+    } catch (err: any) {
+      if (err instanceof BlockedAddressError || attempt >= MAX_ATTEMPTS) throw err;
+      const wait = backoffMs(attempt);
+      console.warn(`⏳ ${err.message} (${host}) — retry ${attempt}/${MAX_ATTEMPTS - 1} in ${Math.round(wait / 1000)}s`);
+      await sleep(wait);
+    }
+  }
+}
+
+/* ------------------------------------------------------------
+ * 🧩 robots.txt cache
+ * ------------------------------------------------------------ */
+const robotsCache = new Map<string, { policy: RobotsPolicy; expiresAt: number }>();
+const robotsLoading = new Map<string, Promise<RobotsPolicy>>();
+
+/**
+ * 4xx → everything allowed; 5xx / network failure → nothing allowed
+ * for a short while (the site may be in trouble).
+ */
+async function loadRobots(origin: string, host: string): Promise<RobotsPolicy> {
+  let policy: RobotsPolicy;
+  let ttl = ROBOTS_TTL_MS;
+  try {
+    const res = await withHostSlot(host, DOMAIN_DELAY_MS, () =>
+      requestWithRetry(`${origin}/robots.txt`, host, DOMAIN_DELAY_MS, { "User-Agent": CRAWLER_USER_AGENT })
+    );
+    if (res.ok) policy = parseRobots(await res.text(), ROBOTS_TOKEN);
+    else if (res.status < 500) policy = ALLOW_ALL;
+    else {
+      policy = DISALLOW_ALL;
+      ttl = ROBOTS_ERROR_TTL_MS;
+    }
+  } catch {
+    policy = DISALLOW_ALL;
+    ttl = ROBOTS_ERROR_TTL_MS;
+  }
+  robotsCache.set(origin, { policy, expiresAt: Date.now() + ttl });
+  return policy;
+}
+
+export async function getRobotsPolicy(url: string) {
+  const { origin, host } = new URL(url);
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+  if (!robotsLoading.has(origin)) {
+    robotsLoading.set(
+      origin,
+      loadRobots(origin, host).finally(() => robotsLoading.delete(origin))
+    );
+  }
+  return robotsLoading.get(origin)!;
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Polite fetch
+ * ------------------------------------------------------------ */
+/**
+ * Fetches a third-party URL within robots.txt and per-domain limits.
+ * Throws BlockedAddressError for non-public hosts, RobotsDisallowedError
+ * when robots.txt forbids the path, and rethrows network errors once
+ * retries are exhausted.
+ */
+export async function politeFetch(url: string, options: FetchOptions = {}): Promise<PoliteResponse> {
+  const target = new URL(url);
+  await assertPublicUrl(url);
+  const policy = await getRobotsPolicy(url);
+  if (!isPathAllowed(policy, `${target.pathname}${target.search}`)) {
+    throw new RobotsDisallowedError(url);
+  }
+
+  const delayMs = Math.max(
+    DOMAIN_DELAY_MS,
+    Math.min(policy.crawlDelaySeconds ?? 0, MAX_CRAWL_DELAY_SECONDS) * 1000
+  );
+
+  const headers: Record<string, string> = {
+    "User-Agent": CRAWLER_USER_AGENT,
+    Accept: options.accept ?? "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8",
+  };
+
+  const validator = options.conditional
+    ? await prisma.fetchValidator.findUnique({ where: { url } })
+    : null;
+  if (validator?.etag) headers["If-None-Match"] = validator.etag;
+  if (validator?.lastModified) headers["If-Modified-Since"] = validator.lastModified;
+
+  return withHostSlot(target.host, delayMs, async () => {
+    const res = await requestWithRetry(url, target.host, delayMs, headers);
+
+    if (res.status === 304) {
+      return { url, status: 304, ok: true, notModified: true, body: "", contentType: null };
+    }
+
+    const body = await res.text();
+    const etag = res.headers.get("etag");
+    const lastModified = res.headers.get("last-modified");
+
+    if (options.conditional && res.ok && (etag || lastModified)) {
+      await prisma.fetchValidator.upsert({
+        where: { url },
+        update: { etag, lastModified },
+        create: { url, etag, lastModified },
+      });
+    }
+
+    return {
+      url: res.url || url,
+      status: res.status,
+      ok: res.ok,
+      notModified: false,
+      body,
+      contentType: res.headers.get("content-type"),
+    };
+  });
+}
@@ -0,0 +1,266 @@
+/**
+ * readability.ts — Main-content extraction for article pages
+ * ------------------------------------------------------------
+ * - Strips boilerplate (scripts, navigation, share bars, comments…)
+ * - Scores DOM blocks by text density, commas and class/id hints,
+ *   discounted by link density; the best block plus related
+ *   siblings is kept
+ * - Output keeps headings and list items as their own lines,
+ *   and <br> line breaks inside paragraphs
+ * - JSON-LD NewsArticle / Article metadata (headline, authors,
+ *   dates, publisher, articleBody)
+ * - gzip + base64 helpers for ScrapedItem.rawHtml
+ * ------------------------------------------------------------
+ */
+
+import * as cheerio from "cheerio";
+import { AnyNode, Element, isTag } from "domhandler";
+import { gunzipSync, gzipSync } from "zlib";
+
+type Cheerio$ = cheerio.CheerioAPI;
+
+const BOILERPLATE =
+  "script, style, noscript, iframe, form, svg, nav, header, footer, aside, button, select, " +
+  "[role='navigation'], [role='banner'], [role='contentinfo'], [aria-hidden='true']";
+
+const NEGATIVE_HINT =
+  /comment|sidebar|share|social|related|recommend|promo|advert|\bads?\b|banner|sponsor|newsletter|subscribe|cookie|popup|modal|footer|menu|breadcrumb|widget|trending|most-?read/i;
+const POSITIVE_HINT = /article|body|content|entry|main|post|story|text|news-?detail|press/i;
+
+const BLOCK_TAGS = "p, pre, td, blockquote, li, h2, h3, h4, h5, h6, div";
+const MIN_BLOCK_CHARS = 25;
+const LINE_BREAK = "\u2028"; // stands in for <br> until the text is written out
+
+/* ------------------------------------------------------------
+ * 🧩 Scoring
+ * ------------------------------------------------------------ */
+function normalizeSpace(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** Like normalizeSpace, but <br> line breaks survive */
+function blockText($: Cheerio$, el: Element) {
+  return $(el).text().split(LINE_BREAK).map(normalizeSpace).filter(Boolean).join("\n");
+}
+
+function hintOf($: Cheerio$, el: Element) {
+  return `${$(el).attr("class") ?? ""} ${$(el).attr("id") ?? ""}`;
+}
+
+function classWeight($: Cheerio$, el: Element) {
+  const hint = hintOf($, el);
+  let weight = 0;
+  if (NEGATIVE_HINT.test(hint)) weight -= 25;
+  if (POSITIVE_HINT.test(hint)) weight += 25;
+  return weight;
+}
+
+function linkDensity($: Cheerio$, el: Element) {
+  const textLength = normalizeSpace($(el).text()).length;
+  if (!textLength) return 1;
+  const linkLength = $(el)
+    .find("a")
+    .toArray()
+    .reduce((n, a) => n + normalizeSpace($(a).text()).length, 0);
+  return linkLength / textLength;
+}
+
+/** A div that only wraps inline content counts as a paragraph */
+function isParagraphLike($: Cheerio$, el: Element) {
+  if (el.tagName !== "div") return true;
+  return $(el).children("p, div, ul, ol, table, pre, blockquote, h1, h2, h3, h4, h5, h6").length === 0;
+}
+
+/** Wrappers such as "page has-sidebar" must not take the story with them */
+function removeBoilerplate($: Cheerio$) {
+  $(BOILERPLATE).remove();
+  $("body *").each((_, el) => {
+    const hint = hintOf($, el);
+    if (!NEGATIVE_HINT.test(hint) || POSITIVE_HINT.test(hint)) return;
+    if (["article", "main"].includes(el.tagName)) return;
+    const wrapsContent = $(el)
+      .find("*")
+      .toArray()
+      .some((d) => ["article", "main"].includes(d.tagName) || POSITIVE_HINT.test(hintOf($, d)));
+    if (!wrapsContent) $(el).remove();
+  });
+}
+
+/** Best-scoring content container (readability-style) */
+function topCandidate($: Cheerio$) {
+  const scores = new Map<Element, number>();
+  const addScore = (el: AnyNode | null | undefined, score: number) => {
+    if (!el || !isTag(el)) return;
+    if (!scores.has(el)) scores.set(el, classWeight($, el));
+    scores.set(el, scores.get(el)! + score);
+  };
+
+  $(BLOCK_TAGS).each((_, el) => {
+    if (!isParagraphLike($, el)) return;
+    const text = normalizeSpace($(el).text());
+    if (text.length < MIN_BLOCK_CHARS) return;
+
+    const score = 1 + text.split(/[,،]/).length + Math.min(3, Math.floor(text.length / 100));
+    addScore(el.parent, score);
+    addScore(el.parent?.parent, score / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [el, raw] of scores) {
+    const score = raw * (1 - linkDensity($, el));
+    scores.set(el, score);
+    if (score > bestScore) {
+      best = el;
+      bestScore = score;
+    }
+  }
+  return { best, bestScore, scores };
+}
+
+/* ------------------------------------------------------------
+ * 🧩 Text output (headings & lists kept)
+ * ------------------------------------------------------------ */
+function blocksToText($: Cheerio$, roots: AnyNode[]) {
+  const lines: string[] = [];
+  const seen = new Set<Element>();
+
+  const visit = (el: AnyNode) => {
+    if (!isTag(el) || seen.has(el)) return;
+    seen.add(el);
+    const tag = el.tagName;
+
+    if (/^h[1-6]$/.test(tag)) {
+      const text = normalizeSpace($(el).text());
+      if (text) lines.push(`${"#".repeat(Math.min(Number(tag[1]), 4))} ${text}`);
+      return;
+    }
+    if (tag === "li") {
+      const text = normalizeSpace($(el).text());
+      if (text && linkDensity($, el) < 0.5) lines.push(`- ${text}`);
+      return;
+    }
+    if (tag === "p" || tag === "pre" || tag === "blockquote" || (tag === "div" && isParagraphLike($, el))) {
+      const text = blockText($, el);
+      if (text.length >= MIN_BLOCK_CHARS && linkDensity($, el) < 0.5) lines.push(text);
+      return;
+    }
+    $(el).children().each((_, child) => visit(child));
+  };
+
+  roots.forEach(visit);
+  return [...new Set(lines)].join("\n\n");
+}
+
+/**
+ * Main text of the page, or "" when nothing article-like is found.
+ * Mutates `$` (boilerplate is removed).
+ */
+export function extractReadableText($: Cheerio$) {
+  removeBoilerplate($);
+  $("br").replaceWith(LINE_BREAK);
+  const { best, bestScore, scores } = topCandidate($);
+  if (!best) return "";
+
+  // siblings that belong to the same story (split containers, lead paragraphs)
+  const threshold = Math.max(10, bestScore * 0.2);
+  const roots: Element[] = [];
+  $(best.parent ?? best)
+    .children()
+    .each((_, sibling) => {
+      if (sibling === best) return void roots.push(sibling);
+      const score = scores.get(sibling) ?? 0;
+      const text = normalizeSpace($(sibling).text());
+      const denseParagraph = sibling.tagName === "p" && text.length > 80 && linkDensity($, sibling) < 0.25;
+      if (score >= threshold || denseParagraph) roots.push(sibling);
+    });
+
+  return blocksToText($, roots.length ? roots : [best]);
+}
+
+/* ------------------------------------------------------------
+ * 🧩 JSON-LD
+ * ------------------------------------------------------------ */
+const ARTICLE_TYPES = ["NewsArticle", "Article", "ReportageNewsArticle", "AnalysisNewsArticle", "BlogPosting", "PressRelease"];
+
+export type JsonLdArticle = {
+  headline: string | null;
+  description: string | null;
+  authors: string[];
+  datePublished: Date | null;
+  dateModified: Date | null;
+  publisher: string | null;
+  articleBody: string | null;
+  keywords: string[];
+};
+
+function names(value: any): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value.flatMap(names);
+  if (typeof value === "string") return [normalizeSpace(value)].filter(Boolean);
+  if (typeof value === "object" && typeof value.name === "string") return [normalizeSpace(value.name)];
+  return [];
+}
+
+function date(value: unknown) {
+  if (typeof value !== "string") return null;
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+function isArticleNode(node: any) {
+  const types = Array.isArray(node?.["@type"]) ? node["@type"] : [node?.["@type"]];
+  return types.some((t: unknown) => typeof t === "string" && ARTICLE_TYPES.includes(t));
+}
+
+/** First article-typed node across all ld+json scripts (arrays and @graph included) */
+export function extractJsonLd($: Cheerio$): JsonLdArticle | null {
+  const nodes: any[] = [];
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      const parsed = JSON.parse($(el).text().trim());
+      const queue = Array.isArray(parsed) ? parsed : [parsed];
+      for (const node of queue) {
+        nodes.push(node);
+        if (Array.isArray(node?.["@graph"])) nodes.push(...node["@graph"]);
+      }
+    } catch {
+      // malformed JSON-LD is common; ignore
+    }
+  });
+
+  const article = nodes.find(isArticleNode);
+  if (!article) return null;
+
+  const keywords = Array.isArray(article.keywords)
+    ? article.keywords
+    : typeof article.keywords === "string"
+      ? article.keywords.split(",")
+      : [];
+
+  return {
+    headline: typeof article.headline === "string" ? normalizeSpace(article.headline) : null,
+    description: typeof article.description === "string" ? normalizeSpace(article.description) : null,
+    authors: [...new Set(names(article.author))],
+    datePublished: date(article.datePublished),
+    dateModified: date(article.dateModified),
+    publisher: names(article.publisher)[0] ?? null,
+    articleBody: typeof article.articleBody === "string" ? article.articleBody.trim() : null,
+    keywords: keywords.map((k: unknown) => String(k).trim().toLowerCase()).filter(Boolean),
+  };
+}
+
+/* ------------------------------------------------------------
+ * 🧩 rawHtml compression
+ * ------------------------------------------------------------ */
+const MAX_RAW_HTML_BYTES = 5 * 1024 * 1024;
+
+/** gzip + base64; null for oversized pages */
+export function compressHtml(html: string) {
+  if (Buffer.byteLength(html) > MAX_RAW_HTML_BYTES) return null;
+  return gzipSync(html).toString("base64");
+}
+
+export function decompressHtml(stored: string) {
+  return gunzipSync(Buffer.from(stored, "base64")).toString("utf8");
+}
@@ -0,0 +1,99 @@
+/**
+ * robots.ts — robots.txt parsing
+ * ------------------------------------------------------------
+ * - Picks the group for our user-agent token (falls back to "*")
+ * - Allow / Disallow with "*" wildcards and "$" anchors;
+ *   the longest matching rule wins, Allow wins ties
+ * - Reads Crawl-delay
+ * ------------------------------------------------------------
+ */
+
+export type RobotsRule = { allow: boolean; pattern: string; regex: RegExp };
+
+export type RobotsPolicy = {
+  rules: RobotsRule[];
+  crawlDelaySeconds: number | null;
+};
+
+export const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelaySeconds: null };
+export const DISALLOW_ALL: RobotsPolicy = {
+  rules: [{ allow: false, pattern: "/", regex: /^\// }],
+  crawlDelaySeconds: null,
+};
+
+function patternToRegex(pattern: string) {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+type Group = { agents: string[]; rules: RobotsRule[]; crawlDelaySeconds: number | null };
+
+/**
+ * Parses robots.txt for `userAgentToken` (e.g. "KonfamBot"). Groups
+ * naming our token win over "*"; several matching groups are merged.
+ */
+export function parseRobots(text: string, userAgentToken: string): RobotsPolicy {
+  const groups: Group[] = [];
+  let current: Group | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const sep = line.indexOf(":");
+    if (sep === -1) continue;
+
+    const field = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+
+    if (field === "user-agent") {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelaySeconds: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if ((field === "allow" || field === "disallow") && value) {
+      current.rules.push({ allow: field === "allow", pattern: value, regex: patternToRegex(value) });
+    } else if (field === "crawl-delay") {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelaySeconds = seconds;
+    }
+  }
+
+  const token = userAgentToken.toLowerCase();
+  let matching = groups.filter((g) => g.agents.some((a) => a !== "*" && token.includes(a)));
+  if (!matching.length) matching = groups.filter((g) => g.agents.includes("*"));
+  if (!matching.length) return ALLOW_ALL;
+
+  const delays = matching.map((g) => g.crawlDelaySeconds).filter((d): d is number => d !== null);
+  return {
+    rules: matching.flatMap((g) => g.rules),
+    crawlDelaySeconds: delays.length ? Math.max(...delays) : null,
+  };
+}
+
+/** `path` is the URL path plus query string */
+export function isPathAllowed(policy: RobotsPolicy, path: string) {
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!rule.regex.test(path)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return !best || best.allow;
+}
@@ -0,0 +1,174 @@
+/**
+ * scrape-run.service.ts — Scrape run history
+ * ------------------------------------------------------------
+ * - One ScrapeRun per source per crawl: timings, URL counters,
+ *   failure reasons (HTTP status, robots, timeout, …), items saved
+ * - Status: SUCCEEDED, PARTIAL (some URLs failed), EMPTY (nothing
+ *   discovered — usually a changed page layout), FAILED
+ * - Failing sources: the latest finished run is FAILED or EMPTY
+ * - Runs older than SCRAPE_RUN_RETENTION_DAYS are pruned
+ * ------------------------------------------------------------
+ */
+
+import { Prisma, ScrapeRunStatus } from "@prisma/client";
+import { prisma } from "../db/client";
+import { RobotsDisallowedError } from "./polite-fetch";
+import { BlockedAddressError } from "./url-guard";
+
+const RETENTION_DAYS = Number(process.env.SCRAPE_RUN_RETENTION_DAYS) || 30;
+const FAILING_LOOKBACK_RUNS = 10;
+const STALE_RUN_MS = 60 * 60 * 1000; // no crawl takes an hour
+
+export type RunTrigger = "schedule" | "manual";
+
+export type RunStats = {
+  urlsDiscovered: number;
+  urlsFetched: number;
+  urlsSkipped: number;
+  urlsFailed: number;
+  notModified: number;
+  itemsSaved: number;
+  errorCodes: Record<string, number>;
+};
+
+export function newRunStats(): RunStats {
+  return {
+    urlsDiscovered: 0,
+    urlsFetched: 0,
+    urlsSkipped: 0,
+    urlsFailed: 0,
+    notModified: 0,
+    itemsSaved: 0,
+    errorCodes: {},
+  };
+}
+
+/** "404", "robots", "blocked_address", "timeout", "network", … */
+export function failureReason(err: any) {
+  if (err instanceof RobotsDisallowedError) return "robots";
+  if (err instanceof BlockedAddressError) return "blocked_address";
+  if (err?.name === "TimeoutError" || err?.name === "AbortError") return "timeout";
+  const status = /HTTP (\d{3})/.exec(err?.message ?? "");
+  return status ? status[1] : "network";
+}
+
+export function recordFailure(stats: RunStats, reason: string) {
+  stats.urlsFailed++;
+  stats.errorCodes[reason] = (stats.errorCodes[reason] ?? 0) + 1;
+}
+
+function runStatus(stats: RunStats, error: unknown): ScrapeRunStatus {
+  if (error) return "FAILED";
+  if (stats.urlsDiscovered === 0 && stats.notModified === 0) {
+    return stats.urlsFailed > 0 ? "FAILED" : "EMPTY";
+  }
+  if (stats.urlsFailed > 0) return stats.urlsFetched === 0 ? "FAILED" : "PARTIAL";
+  return "SUCCEEDED";
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Recording
+ * ------------------------------------------------------------ */
+/**
+ * Runs `fn` inside a ScrapeRun for the source. The run is finished
+ * with the collected stats whether `fn` resolves or throws (errors
+ * are rethrown). A run left RUNNING for over an hour (crashed worker)
+ * is closed as FAILED when the next one starts.
+ */
+export async function withScrapeRun<T>(
+  sourceId: string,
+  trigger: RunTrigger,
+  fn: (stats: RunStats, runId: string) => Promise<T>
+) {
+  await prisma.scrapeRun.updateMany({
+    where: { sourceId, status: "RUNNING", startedAt: { lt: new Date(Date.now() - STALE_RUN_MS) } },
+    data: { status: "FAILED", finishedAt: new Date(), error: "Interrupted (worker stopped mid-run)" },
+  });
+
+  const run = await prisma.scrapeRun.create({ data: { sourceId, trigger } });
+  const stats = newRunStats();
+  let error: any = null;
+
+  try {
+    return await fn(stats, run.id);
+  } catch (err) {
+    error = err;
+    throw err;
+  } finally {
+    const status = runStatus(stats, error);
+    await prisma.scrapeRun.update({
+      where: { id: run.id },
+      data: {
+        urlsDiscovered: stats.urlsDiscovered,
+        urlsFetched: stats.urlsFetched,
+        urlsSkipped: stats.urlsSkipped,
+        urlsFailed: stats.urlsFailed,
+        notModified: stats.notModified,
+        itemsSaved: stats.itemsSaved,
+        errorCodes: stats.errorCodes,
+        status,
+        finishedAt: new Date(),
+        error: error ? String(error.message ?? error).slice(0, 1000) : null,
+      },
+    });
+    if (status === "FAILED" || status === "EMPTY") {
+      console.warn(`⚠️ Scrape run ${run.id} for source ${sourceId} finished ${status}`);
+    }
+  }
+}
+
+export async function pruneScrapeRuns() {
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const { count } = await prisma.scrapeRun.deleteMany({ where: { startedAt: { lt: cutoff } } });
+  return count;
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ History & failing sources (API)
+ * ------------------------------------------------------------ */
+export function listScrapeRuns(where: Prisma.ScrapeRunWhereInput, limit: number) {
+  return prisma.scrapeRun.findMany({
+    where,
+    include: { source: { select: { id: true, name: true, brandId: true, type: true } } },
+    orderBy: { startedAt: "desc" },
+    take: limit,
+  });
+}
+
+/**
+ * Active sources whose latest finished run is FAILED or EMPTY, with
+ * the number of consecutive bad runs and the last good one.
+ */
+export async function getFailingSources(where: Prisma.ScrapeSourceWhereInput = {}) {
+  const sources = await prisma.scrapeSource.findMany({
+    where: { AND: [where, { isActive: true, brand: { isActive: true } }] },
+    select: {
+      id: true,
+      brandId: true,
+      name: true,
+      type: true,
+      baseUrl: true,
+      lastCrawledAt: true,
+      runs: {
+        where: { finishedAt: { not: null } },
+        orderBy: { startedAt: "desc" },
+        take: FAILING_LOOKBACK_RUNS,
+      },
+    },
+  });
+
+  const bad = (status: ScrapeRunStatus) => status === "FAILED" || status === "EMPTY";
+
+  return sources
+    .filter((s) => s.runs.length > 0 && bad(s.runs[0].status))
+    .map(({ runs, ...source }) => {
+      const firstGood = runs.findIndex((r) => !bad(r.status));
+      return {
+        ...source,
+        latestRun: runs[0],
+        consecutiveFailures: firstGood === -1 ? runs.length : firstGood,
+        lastSuccessfulRunAt: firstGood === -1 ? null : runs[firstGood].startedAt,
+      };
+    })
+    .sort((a, b) => b.consecutiveFailures - a.consecutiveFailures);
+}
@@ -0,0 +1,220 @@
+/**
+ * scrape-source.service.ts — Scrape source management
+ * ------------------------------------------------------------
+ * - Validates scrape source input for create / update / preview
+ *   (URLs, entry paths, CSS selector syntax, crawl interval)
+ * - Source hosts must resolve to public addresses
+ * - Search sources are owned by the brand's search settings:
+ *   only isActive and crawlInterval can be changed here
+ * - Schedule changes reset nextCrawlAt so the scheduler recomputes it
+ * - URL / selector changes clear the conditional-GET validators
+ * ------------------------------------------------------------
+ */
+
+import * as cheerio from "cheerio";
+import { ScrapeSource } from "@prisma/client";
+import { prisma } from "../db/client";
+import { SEARCH_SOURCE_TYPE, sourceFetchUrls } from "./source-crawler.service";
+import { assertPublicUrl, BlockedAddressError } from "./url-guard";
+
+export const SOURCE_TYPES = ["news", "blog", "press", "rss", "forum"];
+
+const MIN_CRAWL_INTERVAL = 5 * 60; // seconds
+const MAX_CRAWL_INTERVAL = 7 * 24 * 60 * 60;
+const MAX_ENTRY_PATHS = 20;
+
+export type ScrapeSourceInput = Partial<{
+  brandId: string;
+  name: string;
+  baseUrl: string;
+  entryPaths: string[];
+  type: string;
+  cssSelector: string | null;
+  rssUrl: string | null;
+  fetchFullContent: boolean;
+  crawlInterval: number;
+  isActive: boolean;
+}>;
+
+/** Fields a search source accepts (the rest follow the brand) */
+const SEARCH_SOURCE_FIELDS = ["isActive", "crawlInterval"];
+
+/** Changing these drops the listing / feed validators so the next crawl is a full GET */
+const RECRAWL_FIELDS = ["baseUrl", "entryPaths", "cssSelector", "rssUrl"] as const;
+
+/* ------------------------------------------------------------
+ * 🧩 Validation
+ * ------------------------------------------------------------ */
+function isHttpUrl(value: string, base?: string) {
+  try {
+    return ["http:", "https:"].includes(new URL(value, base).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function isValidSelector(selector: string) {
+  try {
+    cheerio.load("<html></html>")(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates a create (`partial = false`) or update / preview
+ * (`partial = true`) payload. Only fields present in the body are returned.
+ */
+export function validateScrapeSourceInput(body: any, partial: boolean) {
+  const errors: string[] = [];
+  const data: ScrapeSourceInput = {};
+  body = body ?? {};
+
+  if (!partial) {
+    if (typeof body.brandId !== "string" || !body.brandId) errors.push("brandId is required");
+    else data.brandId = body.brandId;
+  }
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== "string" || body.name.trim().length < 2 || body.name.trim().length > 150) {
+      errors.push("name is required (2–150 characters)");
+    } else {
+      data.name = body.name.trim();
+    }
+  }
+
+  if (body.baseUrl !== undefined || !partial) {
+    if (typeof body.baseUrl !== "string" || !isHttpUrl(body.baseUrl)) {
+      errors.push("baseUrl must be a valid http(s) URL");
+    } else {
+      data.baseUrl = new URL(body.baseUrl).toString();
+    }
+  }
+
+  if (body.entryPaths !== undefined) {
+    const paths = body.entryPaths;
+    if (!Array.isArray(paths) || paths.some((p) => typeof p !== "string" || !p.trim() || p.length > 500)) {
+      errors.push("entryPaths must be an array of paths or URLs (max 500 characters each)");
+    } else if (paths.length > MAX_ENTRY_PATHS) {
+      errors.push(`entryPaths can hold at most ${MAX_ENTRY_PATHS} entries`);
+    } else {
+      data.entryPaths = [...new Set(paths.map((p: string) => p.trim()))];
+    }
+  }
+
+  if (body.type !== undefined) {
+    if (!SOURCE_TYPES.includes(body.type)) {
+      errors.push(`type must be one of ${SOURCE_TYPES.join(", ")}`);
+    } else {
+      data.type = body.type;
+    }
+  }
+
+  if (body.cssSelector !== undefined) {
+    const selector = body.cssSelector;
+    if (selector === null || selector === "") data.cssSelector = null;
+    else if (typeof selector !== "string" || selector.length > 500 || !isValidSelector(selector)) {
+      errors.push("cssSelector must be a valid CSS selector (max 500 characters)");
+    } else data.cssSelector = selector.trim();
+  }
+
+  if (body.rssUrl !== undefined) {
+    const rssUrl = body.rssUrl;
+    if (rssUrl === null || rssUrl === "") data.rssUrl = null;
+    else if (typeof rssUrl !== "string" || rssUrl.length > 500 || !isHttpUrl(rssUrl, "https://example.com")) {
+      errors.push("rssUrl must be an http(s) URL or a path on baseUrl");
+    } else data.rssUrl = rssUrl.trim();
+  }
+
+  for (const field of ["fetchFullContent", "isActive"] as const) {
+    if (body[field] === undefined) continue;
+    if (typeof body[field] !== "boolean") errors.push(`${field} must be a boolean`);
+    else data[field] = body[field];
+  }
+
+  if (body.crawlInterval !== undefined) {
+    const interval = body.crawlInterval;
+    if (!Number.isInteger(interval) || interval < MIN_CRAWL_INTERVAL || interval > MAX_CRAWL_INTERVAL) {
+      errors.push(`crawlInterval must be whole seconds between ${MIN_CRAWL_INTERVAL} and ${MAX_CRAWL_INTERVAL}`);
+    } else {
+      data.crawlInterval = interval;
+    }
+  }
+
+  return { data, errors };
+}
+
+/**
+ * Errors for baseUrl / rssUrl / absolute entry paths whose host is a
+ * loopback, private or link-local address. Unresolvable hosts pass —
+ * they fail at crawl time like any other dead site.
+ */
+export async function sourceHostErrors(config: Pick<ScrapeSourceInput, "baseUrl" | "rssUrl" | "entryPaths">) {
+  const urls: [string, string][] = [];
+  if (config.baseUrl) urls.push(["baseUrl", config.baseUrl]);
+  if (config.rssUrl && /^https?:\/\//i.test(config.rssUrl)) urls.push(["rssUrl", config.rssUrl]);
+  for (const path of config.entryPaths ?? []) {
+    if (/^https?:\/\//i.test(path)) urls.push(["entryPaths", path]);
+  }
+
+  const errors: string[] = [];
+  for (const [field, url] of urls) {
+    try {
+      await assertPublicUrl(url);
+    } catch (err) {
+      if (err instanceof BlockedAddressError) errors.push(`${field} must point to a public host (${url})`);
+    }
+  }
+  return errors;
+}
+
+/** Search sources only accept SEARCH_SOURCE_FIELDS; returns the offending fields */
+export function searchSourceViolations(source: Pick<ScrapeSource, "type">, data: ScrapeSourceInput) {
+  if (source.type !== SEARCH_SOURCE_TYPE) return [];
+  return Object.keys(data).filter((field) => !SEARCH_SOURCE_FIELDS.includes(field));
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Writes
+ * ------------------------------------------------------------ */
+export function createScrapeSource(data: ScrapeSourceInput) {
+  return prisma.scrapeSource.create({
+    data: {
+      brandId: data.brandId!,
+      name: data.name!,
+      baseUrl: data.baseUrl!,
+      entryPaths: data.entryPaths ?? [],
+      type: data.type,
+      cssSelector: data.cssSelector ?? null,
+      rssUrl: data.rssUrl ?? null,
+      fetchFullContent: data.fetchFullContent,
+      crawlInterval: data.crawlInterval,
+      isActive: data.isActive,
+    },
+  });
+}
+
+export async function updateScrapeSource(id: string, data: ScrapeSourceInput) {
+  const { brandId, ...rest } = data; // sources don't move between brands
+  const rescheduled = rest.crawlInterval !== undefined || rest.isActive === true;
+  const before = await prisma.scrapeSource.findUniqueOrThrow({ where: { id } });
+
+  const source = await prisma.scrapeSource.update({
+    where: { id },
+    data: { ...rest, ...(rescheduled && { nextCrawlAt: null }) },
+  });
+
+  // a 304 against the old ETag would hide what the new selector / paths find
+  if (RECRAWL_FIELDS.some((field) => rest[field] !== undefined)) {
+    const urls = [...new Set([...sourceFetchUrls(before), ...sourceFetchUrls(source)])];
+    await prisma.fetchValidator.deleteMany({ where: { url: { in: urls } } });
+  }
+
+  return source;
+}
+
+/** Soft delete: crawling stops, stored items and run history stay */
+export function deactivateScrapeSource(id: string) {
+  return prisma.scrapeSource.update({ where: { id }, data: { isActive: false } });
+}
@@ -0,0 +1,248 @@
+/**
+ * scraped-item.service.ts — ScrapedItem writes & version history
+ * ------------------------------------------------------------
+ * - Every scraper writes items through saveScrapedItem()
+ * - Each distinct content hash is kept as a ScrapedItemVersion
+ *   (evidence of what a page said, and when)
+ * - A change on an official brand page raises an alert (not when
+ *   only the extractor version changed: that's a new baseline)
+ * - Negative tier-1 coverage raises a news-origin Threat
+ * - New and edited content joins its near-duplicate cluster
+ * ------------------------------------------------------------
+ */
+
+import { Brand, Prisma, ScrapeSource } from "@prisma/client";
+import { prisma } from "../db/client";
+import { EXTRACTOR_VERSION, ExtractedArticle, generateContentHash } from "./article-extractor";
+import { assignCluster } from "./article-cluster.service";
+import { Coverage, raiseNewsThreat } from "./coverage.service";
+import { detectLanguage } from "./language";
+import { scoreCredibility } from "./source-domain.service";
+import { diffText } from "./text-diff";
+import { getWsBroadcaster } from "./verification-response.service";
+
+type SourceWithBrand = ScrapeSource & { brand: Brand };
+
+type SaveOptions = {
+  credibility?: number;
+  meta?: Record<string, unknown>; // merged into article.scrapedMeta
+  coverage?: Coverage; // sentiment & stance towards the brand
+  discoveredUrl?: string; // link the crawler followed, when it differs from the canonical URL
+};
+
+function hostOf(url: string) {
+  return new URL(url).hostname.replace(/^www\./, "");
+}
+
+/** Pages on the brand's own website or listed as its mandatory URLs */
+export function isOfficialBrandPage(brand: Brand, url: string) {
+  if (brand.mandatoryUrls.includes(url)) return true;
+  try {
+    return !!brand.websiteUrl && hostOf(brand.websiteUrl) === hostOf(url);
+  } catch {
+    return false;
+  }
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Save (upsert + version)
+ * ------------------------------------------------------------ */
+export async function saveScrapedItem(source: SourceWithBrand, article: ExtractedArticle, options: SaveOptions = {}) {
+  const now = new Date();
+  const contentHash = generateContentHash(article.content);
+  const credibility = options.credibility ?? (await scoreCredibility(source.brand, article));
+  const scrapedMeta = { ...article.scrapedMeta, ...options.meta } as Prisma.InputJsonObject;
+  const { language } = detectLanguage(`${article.title ?? ""}\n${article.content}`);
+
+  const existing = await prisma.scrapedItem.findUnique({
+    where: { sourceId_url: { sourceId: source.id, url: article.url } },
+    select: {
+      id: true,
+      contentHash: true,
+      title: true,
+      content: true,
+      fetchedAt: true,
+      simhash: true,
+      scrapedMeta: true,
+      discoveredUrls: true,
+    },
+  });
+
+  // lets the crawler recognise the link next time without refetching it
+  const discovered = new Set(existing?.discoveredUrls);
+  if (options.discoveredUrl && options.discoveredUrl !== article.url) discovered.add(options.discoveredUrl);
+  const discoveredUrls = [...discovered];
+
+  const item = await prisma.scrapedItem.upsert({
+    where: { sourceId_url: { sourceId: source.id, url: article.url } },
+    update: {
+      title: article.title,
+      authors: article.authors,
+      excerpt: article.excerpt,
+      content: article.content,
+      contentHash,
+      tags: article.tags,
+      credibility,
+      scrapedMeta,
+      language,
+      discoveredUrls,
+      ...options.coverage,
+      ...(article.rawHtml && { rawHtml: article.rawHtml }), // feed items carry no page HTML
+      fetchedAt: now,
+    },
+    create: {
+      sourceId: source.id,
+      url: article.url,
+      canonicalUrl: article.url,
+      title: article.title,
+      authors: article.authors,
+      publishedAt: article.publishedAt,
+      excerpt: article.excerpt,
+      content: article.content,
+      contentHash,
+      tags: article.tags,
+      credibility,
+      scrapedMeta,
+      language,
+      discoveredUrls,
+      rawHtml: article.rawHtml,
+      ...options.coverage,
+      fetchedAt: now,
+    },
+  });
+
+  if (item.stance === "NEGATIVE") {
+    try {
+      await raiseNewsThreat(source.brand, item);
+    } catch (err: any) {
+      console.error(`❌ News threat failed for ${item.url}: ${err.message}`);
+    }
+  }
+
+  const changed = !!existing && existing.contentHash !== contentHash;
+
+  // items stored before clustering are fingerprinted on their next fetch
+  if (!existing || changed || !existing.simhash) {
+    try {
+      await assignCluster(source.brandId, item);
+    } catch (err: any) {
+      console.error(`❌ Clustering failed for ${item.url}: ${err.message}`);
+    }
+  }
+
+  if (existing && !changed) return { item, created: false, changed: false };
+
+  // items stored before version tracking get their old content as a baseline
+  let previous = null;
+  if (existing) {
+    previous = await prisma.scrapedItemVersion.findFirst({
+      where: { itemId: item.id },
+      orderBy: { fetchedAt: "desc" },
+    });
+    previous ??= await prisma.scrapedItemVersion.create({
+      data: {
+        itemId: item.id,
+        contentHash: existing.contentHash,
+        title: existing.title,
+        content: existing.content,
+        fetchedAt: existing.fetchedAt,
+      },
+    });
+  }
+
+  const version = await prisma.scrapedItemVersion.create({
+    data: { itemId: item.id, contentHash, title: article.title, content: article.content, fetchedAt: now },
+  });
+
+  // stored by an older extractor: the text can differ while the page didn't
+  const previousMeta = existing?.scrapedMeta as { extractorVersion?: number } | null | undefined;
+  const reextracted = previousMeta?.extractorVersion !== EXTRACTOR_VERSION;
+  if (previous && !reextracted && isOfficialBrandPage(source.brand, item.url)) {
+    alertOfficialPageChange(source.brand, item, previous, version);
+  }
+
+  return { item, created: !existing, changed };
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ Official page change alert
+ * ------------------------------------------------------------ */
+type VersionRef = { id: string; content: string; fetchedAt: Date };
+
+function alertOfficialPageChange(
+  brand: Brand,
+  item: { id: string; url: string; title: string | null },
+  previous: VersionRef,
+  current: VersionRef
+) {
+  const diff = diffText(previous.content, current.content);
+  console.warn(
+    `🚨 Official page changed for ${brand.name}: ${item.url} (+${diff.added} / -${diff.removed} lines)`
+  );
+
+  getWsBroadcaster()?.("official_page_changed", {
+    brandId: brand.id,
+    brandName: brand.name,
+    itemId: item.id,
+    url: item.url,
+    title: item.title,
+    fromVersionId: previous.id,
+    toVersionId: current.id,
+    changedAt: current.fetchedAt,
+    added: diff.added,
+    removed: diff.removed,
+    message: `⚠️ ${brand.name} official page changed: ${item.title ?? item.url}`,
+  });
+}
+
+/* ------------------------------------------------------------
+ * 3️⃣ History & diff (API)
+ * ------------------------------------------------------------ */
+/** Scoped to the client through source → brand */
+export function findItemForClient(clientId: string, itemId: string) {
+  return prisma.scrapedItem.findFirst({
+    where: { id: itemId, source: { brand: { clientId } } },
+    select: {
+      id: true,
+      url: true,
+      title: true,
+      contentHash: true,
+      clusterId: true,
+      source: { select: { id: true, name: true, brandId: true } },
+    },
+  });
+}
+
+export function listVersions(itemId: string) {
+  return prisma.scrapedItemVersion.findMany({
+    where: { itemId },
+    select: { id: true, contentHash: true, title: true, fetchedAt: true },
+    orderBy: { fetchedAt: "desc" },
+  });
+}
+
+/**
+ * Diff between two versions of an item. Defaults: `to` = latest,
+ * `from` = the version before `to`. Returns null for unknown ids.
+ */
+export async function diffVersions(itemId: string, fromId?: string, toId?: string) {
+  const versions = await prisma.scrapedItemVersion.findMany({
+    where: { itemId },
+    orderBy: { fetchedAt: "desc" },
+  });
+  if (!versions.length) return null;
+
+  const toIndex = toId ? versions.findIndex((v) => v.id === toId) : 0;
+  if (toIndex === -1) return null;
+  const fromIndex = fromId ? versions.findIndex((v) => v.id === fromId) : toIndex + 1;
+  if (fromIndex === -1) return null;
+
+  const to = versions[toIndex];
+  const from = versions[fromIndex]; // undefined = first version, diffed against nothing
+
+  return {
+    from: from ? { id: from.id, contentHash: from.contentHash, title: from.title, fetchedAt: from.fetchedAt } : null,
+    to: { id: to.id, contentHash: to.contentHash, title: to.title, fetchedAt: to.fetchedAt },
+    diff: diffText(from?.content ?? "", to.content),
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * search-provider.ts — Web / news search behind one interface
+ * ------------------------------------------------------------
+ * - SerpApiProvider  → serpapi.com (production)
+ * - LocalSearchProvider → JSON fixtures file or a local HTTP stub
+ *   (offline development & tests)
+ * - SEARCH_PROVIDER=serpapi|local picks one per environment
+ *   (default: serpapi when SERPAPI_API_KEY is set, else local)
+ * - Results are normalized to SearchResult
+ * - Identical queries are cached; real calls are counted per
+ *   provider and month and stop at the provider's quota
+ * ------------------------------------------------------------
+ */
+
+import { readFile } from "fs/promises";
+import fetch from "node-fetch";
+import { prisma } from "../db/client";
+import { currentPeriod } from "./usage.service";
+
+export type SearchType = "web" | "news";
+
+export type SearchOptions = { type?: SearchType; num?: number };
+
+export type SearchResult = {
+  url: string;
+  title: string | null;
+  snippet: string | null;
+  source: string; // publisher name, or the host when unknown
+  publishedAt: Date | null;
+  position: number; // 1-based rank
+};
+
+export interface SearchProvider {
+  readonly name: string;
+  /** Searches allowed per calendar month; null = unlimited */
+  readonly monthlyQuota: number | null;
+  search(query: string, options: Required<SearchOptions>): Promise<SearchResult[]>;
+}
+
+export class SearchProviderError extends Error {
+  constructor(public provider: string, message: string) {
+    super(`${provider}: ${message}`);
+  }
+}
+
+export class SearchQuotaExceededError extends SearchProviderError {
+  constructor(provider: string, public quota: number) {
+    super(provider, `monthly quota of ${quota} searches reached`);
+  }
+}
+
+const DEFAULT_NUM_RESULTS = 8;
+const CACHE_TTL_MS = (Number(process.env.SEARCH_CACHE_TTL_MINUTES) || 60) * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/* ------------------------------------------------------------
+ * 🧩 Normalization
+ * ------------------------------------------------------------ */
+function parseDate(value: unknown) {
+  if (typeof value !== "string" || !value) return null;
+  const ts = Date.parse(value);
+  return isNaN(ts) ? null : new Date(ts); // relative dates ("2 hours ago") are dropped
+}
+
+function text(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** Drops entries without an http(s) URL and repeated URLs; re-ranks from 1 */
+function normalizeResults(
+  raw: { url: unknown; title?: unknown; snippet?: unknown; source?: unknown; publishedAt?: unknown }[],
+  num: number
+): SearchResult[] {
+  const seen = new Set<string>();
+  const results: SearchResult[] = [];
+
+  for (const r of raw) {
+    let url: URL;
+    try {
+      url = new URL(String(r.url));
+    } catch {
+      continue;
+    }
+    if (!["http:", "https:"].includes(url.protocol) || seen.has(url.href)) continue;
+    seen.add(url.href);
+
+    results.push({
+      url: url.href,
+      title: text(r.title),
+      snippet: text(r.snippet),
+      source: text(r.source) ?? url.hostname.replace(/^www\./, ""),
+      publishedAt: r.publishedAt instanceof Date ? r.publishedAt : parseDate(r.publishedAt),
+      position: results.length + 1,
+    });
+    if (results.length >= num) break;
+  }
+  return results;
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ SerpAPI
+ * ------------------------------------------------------------ */
+export class SerpApiProvider implements SearchProvider {
+  readonly name = "serpapi";
+
+  constructor(private apiKey: string, readonly monthlyQuota: number | null) {}
+
+  async search(query: string, { type, num }: Required<SearchOptions>) {
+    const params = new URLSearchParams({
+      engine: "google",
+      q: query,
+      api_key: this.apiKey,
+      num: num.toString(),
+      ...(type === "news" && { tbm: "nws" }),
+    });
+
+    const res = await fetch(`https://serpapi.com/search?${params.toString()}`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const data = (await res.json().catch(() => ({}))) as any;
+    if (!res.ok || data.error) {
+      throw new SearchProviderError(this.name, data.error ?? `HTTP ${res.status}`);
+    }
+
+    const raw: any[] = data.news_results || data.organic_results || [];
+    return normalizeResults(
+      raw.map((r) => ({
+        url: r.link,
+        title: r.title,
+        snippet: r.snippet,
+        // news results carry the publisher as a string or { name }
+        source: typeof r.source === "object" ? r.source?.name : r.source ?? r.displayed_link,
+        publishedAt: r.iso_date ?? r.date,
+      })),
+      num
+    );
+  }
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ Local stand-in
+ * ------------------------------------------------------------ */
+/**
+ * Fixtures file: { "<query>": [results], "*": [fallback results] }
+ * (queries matched case-insensitively). HTTP stub: GET <url>?q=&type=&num=
+ * answering { "results": [...] } or a bare array. Result entries use
+ * the SearchResult field names.
+ */
+export class LocalSearchProvider implements SearchProvider {
+  readonly name = "local";
+  readonly monthlyQuota = null;
+
+  constructor(private config: { fixturesPath?: string; baseUrl?: string }) {}
+
+  async search(query: string, { type, num }: Required<SearchOptions>) {
+    if (this.config.baseUrl) {
+      const params = new URLSearchParams({ q: query, type, num: num.toString() });
+      const res = await fetch(`${this.config.baseUrl}?${params.toString()}`, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new SearchProviderError(this.name, `HTTP ${res.status}`);
+      const data = (await res.json()) as any;
+      return normalizeResults(Array.isArray(data) ? data : data.results ?? [], num);
+    }
+
+    if (this.config.fixturesPath) {
+      const fixtures = JSON.parse(await readFile(this.config.fixturesPath, "utf8"));
+      const key = Object.keys(fixtures).find((k) => k.toLowerCase() === query.trim().toLowerCase());
+      return normalizeResults(fixtures[key ?? "*"] ?? [], num);
+    }
+
+    return [];
+  }
+}
+
+/* ------------------------------------------------------------
+ * 3️⃣ Provider selection
+ * ------------------------------------------------------------ */
+let provider: SearchProvider | null = null;
+
+export function getSearchProvider(): SearchProvider {
+  if (provider) return provider;
+
+  const apiKey = process.env.SERPAPI_API_KEY || "";
+  const choice = (process.env.SEARCH_PROVIDER || (apiKey ? "serpapi" : "local")).toLowerCase();
+
+  if (choice === "serpapi") {
+    if (!apiKey) throw new SearchProviderError("serpapi", "SERPAPI_API_KEY is not set");
+    provider = new SerpApiProvider(apiKey, Number(process.env.SEARCH_MONTHLY_QUOTA) || null);
+  } else if (choice === "local") {
+    const config = {
+      fixturesPath: process.env.SEARCH_FIXTURES_PATH || undefined,
+      baseUrl: process.env.SEARCH_LOCAL_URL || undefined,
+    };
+    if (!config.fixturesPath && !config.baseUrl) {
+      console.warn("⚠️ Local search provider has no SEARCH_FIXTURES_PATH or SEARCH_LOCAL_URL — searches return nothing");
+    }
+    provider = new LocalSearchProvider(config);
+  } else {
+    throw new SearchProviderError(choice, "unknown SEARCH_PROVIDER (expected serpapi or local)");
+  }
+
+  console.log(`🔎 Search provider: ${provider.name}`);
+  return provider;
+}
+
+/* ------------------------------------------------------------
+ * 🧩 Cache & quota
+ * ------------------------------------------------------------ */
+const cache = new Map<string, { results: SearchResult[]; expiresAt: number }>();
+const inFlight = new Map<string, Promise<SearchResult[]>>();
+
+async function checkQuota(p: SearchProvider) {
+  if (p.monthlyQuota === null) return;
+  const usage = await prisma.searchUsage.findUnique({
+    where: { provider_period: { provider: p.name, period: currentPeriod() } },
+  });
+  if ((usage?.searches ?? 0) >= p.monthlyQuota) throw new SearchQuotaExceededError(p.name, p.monthlyQuota);
+}
+
+function recordSearch(p: SearchProvider) {
+  const period = currentPeriod();
+  return prisma.searchUsage.upsert({
+    where: { provider_period: { provider: p.name, period } },
+    update: { searches: { increment: 1 } },
+    create: { provider: p.name, period, searches: 1 },
+  });
+}
+
+/* ------------------------------------------------------------
+ * 4️⃣ Search
+ * ------------------------------------------------------------ */
+/**
+ * Runs a search through the configured provider. Identical queries
+ * within SEARCH_CACHE_TTL_MINUTES are answered from cache and don't
+ * count against the quota. Throws SearchQuotaExceededError once the
+ * month's quota is spent, SearchProviderError on provider failures.
+ */
+export async function searchWeb(query: string, options: SearchOptions = {}) {
+  const p = getSearchProvider();
+  const resolved = { type: options.type ?? "web", num: options.num ?? DEFAULT_NUM_RESULTS };
+  const key = [p.name, resolved.type, resolved.num, query.trim().toLowerCase().replace(/\s+/g, " ")].join("|");
+
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.results;
+
+  if (!inFlight.has(key)) {
+    const run = async () => {
+      await checkQuota(p);
+      const results = await p.search(query.trim(), resolved);
+      await recordSearch(p);
+      cache.set(key, { results, expiresAt: Date.now() + CACHE_TTL_MS });
+      return results;
+    };
+    inFlight.set(key, run().finally(() => inFlight.delete(key)));
+  }
+  return inFlight.get(key)!;
+}
+
@@ -0,0 +1,450 @@
+/**
+ * source-crawler.service.ts — Crawler for ScrapeSources
+ * ------------------------------------------------------------
+ * - Sources with an rssUrl are read from their RSS/Atom feed
+ * - Otherwise visits the source's entryPaths (relative to baseUrl)
+ *   and collects article links with the source's cssSelector
+ * - Fetches unseen links through the shared article extractor;
+ *   links fetched but not kept are remembered for SKIPPED_LINK_TTL_DAYS
+ * - De-duplicates by url and contentHash within the source
+ * - Keeps articles that mention the brand (everything on the brand's own site)
+ *   and stores each with its sentiment & stance towards the brand
+ * - All requests go through politeFetch (robots.txt, per-domain limits);
+ *   listing pages and feeds use conditional GET
+ * - Records lastCrawledAt and a ScrapeRun per crawl
+ * - previewSource() dry-runs a proposed config for the admin API
+ * ------------------------------------------------------------
+ */
+
+import * as cheerio from "cheerio";
+import { Brand, ScrapeSource } from "@prisma/client";
+import { prisma } from "../db/client";
+import { EXTRACTOR_VERSION, ExtractedArticle, fetchArticleContent, generateContentHash } from "./article-extractor";
+import { analyzeCoverage } from "./coverage.service";
+import { FeedEntry, parseFeed } from "./feed-parser";
+import { politeFetch } from "./polite-fetch";
+import { saveScrapedItem } from "./scraped-item.service";
+import { failureReason, recordFailure, RunStats, RunTrigger, withScrapeRun } from "./scrape-run.service";
+
+/** Sources of this type hold search queries, not crawlable paths */
+export const SEARCH_SOURCE_TYPE = "search";
+
+const DEFAULT_LINK_SELECTOR = "article a, h2 a, h3 a";
+const MAX_LINKS_PER_PAGE = 20;
+const MAX_FEED_ENTRIES = 50;
+const SKIPPED_LINK_TTL_DAYS = 14; // brand names / search terms can change what is relevant
+
+// paths that are listings / assets rather than articles
+const NON_ARTICLE_PATH = /\/(tag|category|author|page|search|login|register)(\/|$)|\.(jpe?g|png|gif|svg|pdf|zip|mp4|mp3)$/i;
+
+export type CrawlResult = RunStats & {
+  sourceId: string;
+  runId: string;
+  mode: "feed" | "listing";
+  listingPages: number;
+};
+
+type CrawlableSource = ScrapeSource & { brand: Brand };
+
+function hostOf(url: string) {
+  return new URL(url).hostname.replace(/^www\./, "");
+}
+
+function listingUrls(source: Pick<ScrapeSource, "baseUrl" | "entryPaths" | "name">) {
+  const paths = source.entryPaths.length ? source.entryPaths : ["/"];
+  const urls: string[] = [];
+  for (const path of paths) {
+    try {
+      urls.push(new URL(path, source.baseUrl).toString());
+    } catch {
+      console.warn(`⚠️ Invalid entry path "${path}" on ${source.name}`);
+    }
+  }
+  return urls;
+}
+
+/** Listing pages and feed a crawl fetches conditionally (FetchValidator keys) */
+export function sourceFetchUrls(source: Pick<ScrapeSource, "baseUrl" | "entryPaths" | "name" | "rssUrl">) {
+  const urls = listingUrls(source);
+  if (source.rssUrl) urls.push(new URL(source.rssUrl, source.baseUrl).toString());
+  return urls;
+}
+
+/** Article links in listing page HTML, same site only, fragments stripped */
+function linksOnPage(html: string, listingUrl: string, source: Pick<ScrapeSource, "baseUrl" | "cssSelector">) {
+  const $ = cheerio.load(html);
+  const siteHost = hostOf(source.baseUrl);
+  const links = new Set<string>();
+
+  $(source.cssSelector || DEFAULT_LINK_SELECTOR).each((_, el) => {
+    const href = $(el).attr("href");
+    if (!href) return;
+    try {
+      const url = new URL(href, listingUrl);
+      url.hash = "";
+      if (!["http:", "https:"].includes(url.protocol)) return;
+      if (hostOf(url.toString()) !== siteHost) return;
+      if (url.toString() === listingUrl || NON_ARTICLE_PATH.test(url.pathname)) return;
+      links.add(url.toString());
+    } catch {
+      // malformed href
+    }
+  });
+
+  return [...links].slice(0, MAX_LINKS_PER_PAGE);
+}
+
+/** Returns null when the page is unchanged since the last crawl */
+async function extractLinks(listingUrl: string, source: ScrapeSource) {
+  const res = await politeFetch(listingUrl, { conditional: true });
+  if (res.notModified) return null;
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return linksOnPage(res.body, listingUrl, source);
+}
+
+function mentionsBrand(text: string, brand: Brand) {
+  const t = text.toLowerCase();
+  return [brand.name, brand.searchName]
+    .filter((n): n is string => !!n)
+    .some((n) => t.includes(n.toLowerCase()));
+}
+
+/** Builds an article from the feed's own text (no page fetch) */
+function articleFromFeedEntry(entry: FeedEntry, source: Pick<ScrapeSource, "name" | "type">): ExtractedArticle | null {
+  const content = entry.content || entry.summary;
+  if (!content) return null;
+  return {
+    url: entry.url,
+    title: entry.title,
+    content,
+    excerpt: entry.summary.substring(0, 500),
+    authors: entry.authors,
+    publishedAt: entry.publishedAt,
+    tags: [...entry.categories.map((c) => c.toLowerCase()), source.type.toLowerCase()],
+    rawHtml: null,
+    scrapedMeta: {
+      source: source.name,
+      description: entry.summary,
+      category: source.type,
+      publisher: null,
+      extractor: "feed",
+      extractorVersion: EXTRACTOR_VERSION,
+      dateModified: null,
+      sentimentIndicators: { negative: [], positive: [] },
+      wordCount: content.split(/\s+/).length,
+    },
+  };
+}
+
+/**
+ * Saves an article for the source unless its content hash is already
+ * stored there under another URL (syndicated / re-published copies).
+ * `link` is the URL that was followed; it can differ from article.url.
+ */
+async function storeArticle(
+  source: CrawlableSource,
+  article: ExtractedArticle,
+  link: string,
+  meta: Record<string, unknown>
+) {
+  const duplicate = await prisma.scrapedItem.findFirst({
+    where: { sourceId: source.id, contentHash: generateContentHash(article.content), url: { not: article.url } },
+    select: { id: true },
+  });
+  if (duplicate) return false;
+
+  const coverage = await analyzeCoverage(source.brand.searchName || source.brand.name, article.content);
+  await saveScrapedItem(source, article, { meta, coverage, discoveredUrl: link });
+  return true;
+}
+
+function skippedLinkCutoff() {
+  return new Date(Date.now() - SKIPPED_LINK_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Links already handled for the source: stored (under their canonical
+ * URL or as the link that led there) or recently fetched and skipped
+ */
+async function knownUrlsFor(sourceId: string, urls: string[]) {
+  const [stored, skipped] = await Promise.all([
+    prisma.scrapedItem.findMany({
+      where: { sourceId, OR: [{ url: { in: urls } }, { discoveredUrls: { hasSome: urls } }] },
+      select: { url: true, discoveredUrls: true },
+    }),
+    prisma.skippedLink.findMany({
+      where: { sourceId, url: { in: urls }, skippedAt: { gte: skippedLinkCutoff() } },
+      select: { url: true },
+    }),
+  ]);
+  return new Set([...stored.flatMap((k) => [k.url, ...k.discoveredUrls]), ...skipped.map((s) => s.url)]);
+}
+
+/** Remembers a fetched link that wasn't kept, so the next crawls don't fetch it again */
+async function skipLink(sourceId: string, url: string, reason: "irrelevant" | "duplicate") {
+  await prisma.skippedLink.upsert({
+    where: { sourceId_url: { sourceId, url } },
+    update: { reason, skippedAt: new Date() },
+    create: { sourceId, url, reason },
+  });
+}
+
+export async function pruneSkippedLinks() {
+  const { count } = await prisma.skippedLink.deleteMany({ where: { skippedAt: { lt: skippedLinkCutoff() } } });
+  return count;
+}
+
+function isRelevant(source: Pick<CrawlableSource, "baseUrl" | "brand">, article: ExtractedArticle) {
+  const ownSite = !!source.brand.websiteUrl && hostOf(source.brand.websiteUrl) === hostOf(source.baseUrl);
+  return ownSite || mentionsBrand(`${article.title}\n${article.content}`, source.brand);
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Listing pages
+ * ------------------------------------------------------------ */
+async function crawlListingPages(source: CrawlableSource, result: CrawlResult) {
+  for (const listingUrl of listingUrls(source)) {
+    let links: string[] | null;
+    try {
+      links = await extractLinks(listingUrl, source);
+      result.listingPages++;
+    } catch (err: any) {
+      recordFailure(result, failureReason(err));
+      console.warn(`⚠️ Listing page failed (${listingUrl}): ${err.message}`);
+      continue;
+    }
+    if (!links) {
+      result.notModified++;
+      continue;
+    }
+    result.urlsDiscovered += links.length;
+
+    const knownUrls = await knownUrlsFor(source.id, links);
+
+    for (const link of links) {
+      if (knownUrls.has(link)) {
+        result.urlsSkipped++;
+        continue;
+      }
+      knownUrls.add(link); // once per run, whatever happens below
+
+      const article = await fetchArticleContent(link, source.type, source.name, (reason) =>
+        recordFailure(result, reason)
+      );
+      if (!article) continue;
+      result.urlsFetched++;
+
+      if (!isRelevant(source, article)) {
+        await skipLink(source.id, link, "irrelevant");
+        result.urlsSkipped++;
+        continue;
+      }
+      if (!(await storeArticle(source, article, link, { listingUrl }))) {
+        await skipLink(source.id, link, "duplicate");
+        result.urlsSkipped++;
+        continue;
+      }
+
+      knownUrls.add(article.url);
+      result.itemsSaved++;
+      console.log(`✅ Saved from ${source.name}: ${article.title}`);
+    }
+  }
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ RSS / Atom feed
+ * ------------------------------------------------------------ */
+async function ingestFeed(source: CrawlableSource, result: CrawlResult) {
+  const feedUrl = new URL(source.rssUrl!, source.baseUrl).toString();
+  const res = await politeFetch(feedUrl, {
+    conditional: true,
+    accept: "application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8",
+  });
+  if (res.notModified) {
+    result.notModified++;
+    return;
+  }
+  if (!res.ok) {
+    recordFailure(result, String(res.status));
+    throw new Error(`Feed HTTP ${res.status}`);
+  }
+
+  const entries = parseFeed(res.body, feedUrl).slice(0, MAX_FEED_ENTRIES);
+  result.urlsDiscovered += entries.length;
+
+  const knownUrls = await knownUrlsFor(source.id, entries.map((e) => e.url));
+
+  for (const entry of entries) {
+    if (knownUrls.has(entry.url)) {
+      result.urlsSkipped++;
+      continue;
+    }
+    knownUrls.add(entry.url);
+
+    let article: ExtractedArticle | null = null;
+    if (source.fetchFullContent) {
+      const page = await fetchArticleContent(entry.url, source.type, source.name, (reason) =>
+        recordFailure(result, reason)
+      );
+      // feed metadata is more reliable than page heuristics
+      if (page) {
+        result.urlsFetched++;
+        article = {
+          ...page,
+          title: entry.title || page.title,
+          authors: entry.authors.length ? entry.authors : page.authors,
+          publishedAt: entry.publishedAt ?? page.publishedAt,
+        };
+      }
+    }
+    article ??= articleFromFeedEntry(entry, source);
+
+    if (!article) {
+      result.urlsSkipped++;
+      continue;
+    }
+    if (!isRelevant(source, article)) {
+      await skipLink(source.id, entry.url, "irrelevant");
+      result.urlsSkipped++;
+      continue;
+    }
+    if (!(await storeArticle(source, article, entry.url, { feedUrl }))) {
+      await skipLink(source.id, entry.url, "duplicate");
+      result.urlsSkipped++;
+      continue;
+    }
+
+    knownUrls.add(article.url);
+    result.itemsSaved++;
+    console.log(`✅ Saved from ${source.name} feed: ${article.title}`);
+  }
+}
+
+/* ------------------------------------------------------------
+ * 3️⃣ Crawl a single source
+ * ------------------------------------------------------------ */
+export async function crawlSource(source: CrawlableSource, trigger: RunTrigger = "schedule"): Promise<CrawlResult> {
+  const mode = source.rssUrl ? "feed" : "listing";
+
+  return withScrapeRun(source.id, trigger, async (stats, runId) => {
+    // the run's stats object is filled in place
+    const result: CrawlResult = Object.assign(stats, { sourceId: source.id, runId, mode, listingPages: 0 } as const);
+
+    console.log(`🕷️ Crawling ${source.name} (${mode})...`);
+
+    if (mode === "feed") await ingestFeed(source, result);
+    else await crawlListingPages(source, result);
+
+    await prisma.scrapeSource.update({
+      where: { id: source.id },
+      data: { lastCrawledAt: new Date() },
+    });
+
+    console.log(
+      `🕷️ ${source.name} → ${result.itemsSaved} saved, ${result.urlsSkipped} skipped, ${result.urlsFailed} failed (${result.urlsDiscovered} links on ${result.listingPages} pages)`
+    );
+    return result;
+  });
+}
+
+/* ------------------------------------------------------------
+ * 4️⃣ Preview (admin API — nothing is stored)
+ * ------------------------------------------------------------ */
+const MAX_PREVIEW_PAGES = 3;
+
+export type PreviewConfig = Pick<
+  ScrapeSource,
+  "name" | "baseUrl" | "entryPaths" | "type" | "cssSelector" | "rssUrl" | "fetchFullContent"
+>;
+
+type PreviewPage = { url: string; status: number | null; links: string[]; error?: string };
+
+type PreviewSample = {
+  url: string;
+  title?: string;
+  excerpt?: string;
+  wordCount?: number;
+  authors?: string[];
+  publishedAt?: Date | null;
+  relevant?: boolean; // would be stored for the brand
+  error?: string; // "404", "robots", "no_content", …
+};
+
+/**
+ * Runs the listing / feed step of a crawl for a proposed source config
+ * and extracts a few sample articles, so a selector can be checked
+ * before it is saved.
+ */
+export async function previewSource(config: PreviewConfig, brand: Brand, sampleCount = 3) {
+  const mode = config.rssUrl ? "feed" : "listing";
+  const pages: PreviewPage[] = [];
+  const feedEntries = new Map<string, FeedEntry>();
+
+  if (mode === "feed") {
+    const feedUrl = new URL(config.rssUrl!, config.baseUrl).toString();
+    try {
+      const res = await politeFetch(feedUrl, {
+        accept: "application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8",
+      });
+      if (!res.ok) {
+        pages.push({ url: feedUrl, status: res.status, links: [], error: `HTTP ${res.status}` });
+      } else {
+        const entries = parseFeed(res.body, feedUrl).slice(0, MAX_FEED_ENTRIES);
+        entries.forEach((e) => feedEntries.set(e.url, e));
+        pages.push({ url: feedUrl, status: res.status, links: entries.map((e) => e.url) });
+      }
+    } catch (err: any) {
+      pages.push({ url: feedUrl, status: null, links: [], error: err.message });
+    }
+  } else {
+    for (const listingUrl of listingUrls(config).slice(0, MAX_PREVIEW_PAGES)) {
+      try {
+        const res = await politeFetch(listingUrl);
+        pages.push(
+          res.ok
+            ? { url: listingUrl, status: res.status, links: linksOnPage(res.body, listingUrl, config) }
+            : { url: listingUrl, status: res.status, links: [], error: `HTTP ${res.status}` }
+        );
+      } catch (err: any) {
+        pages.push({ url: listingUrl, status: null, links: [], error: err.message });
+      }
+    }
+  }
+
+  const sampleUrls = [...new Set(pages.flatMap((p) => p.links))].slice(0, sampleCount);
+  const samples: PreviewSample[] = [];
+
+  for (const url of sampleUrls) {
+    let error: string | undefined;
+    const entry = feedEntries.get(url);
+    let article =
+      !entry || config.fetchFullContent
+        ? await fetchArticleContent(url, config.type, config.name, (reason) => (error = reason))
+        : null;
+    if (!article && entry) article = articleFromFeedEntry(entry, config);
+
+    samples.push(
+      article
+        ? {
+            url,
+            title: article.title,
+            excerpt: (article.excerpt || article.content).slice(0, 300),
+            wordCount: article.content.split(/\s+/).length,
+            authors: article.authors,
+            publishedAt: article.publishedAt,
+            relevant: isRelevant({ baseUrl: config.baseUrl, brand }, article),
+            ...(error && { error }),
+          }
+        : { url, error: error ?? "no_content" }
+    );
+  }
+
+  return {
+    mode,
+    selector: mode === "listing" ? config.cssSelector || DEFAULT_LINK_SELECTOR : null,
+    pages,
+    linksFound: pages.reduce((n, p) => n + p.links.length, 0),
+    samples,
+  };
+}
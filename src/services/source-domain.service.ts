@@ -0,0 +1,202 @@
+/**
+ * source-domain.service.ts — Domain credibility registry
+ * ------------------------------------------------------------
+ * - Per-client SourceDomain rows (credibility 0..1, category, notes)
+ * - Built-in defaults apply until a client overrides a domain
+ * - The brand's own website counts as OFFICIAL
+ * - Scoring is shared by the scrapers (at write time) and
+ *   verification (re-scored at read time, so tuning applies at once)
+ * ------------------------------------------------------------
+ */
+
+import { Brand, SourceDomainCategory } from "@prisma/client";
+import { prisma } from "../db/client";
+
+/** Items at or above this score count as credible evidence */
+export const CREDIBLE_THRESHOLD = 0.7;
+
+const UNKNOWN_DOMAIN_CREDIBILITY = 0.5;
+const OFFICIAL_DOMAIN_CREDIBILITY = 0.9;
+const AUTHOR_BONUS = 0.1;
+const PUBLISHED_DATE_BONUS = 0.1;
+const REGISTRY_TTL_MS = 60 * 1000;
+
+export type DomainRating = {
+  domain: string;
+  credibility: number;
+  category: SourceDomainCategory;
+  source: "registry" | "default" | "brand" | "unknown";
+};
+
+/** Applies to every client until overridden in the registry */
+export const DEFAULT_SOURCE_DOMAINS: Omit<DomainRating, "source">[] = [
+  "bbc.com",
+  "reuters.com",
+  "bloomberg.com",
+  "ft.com",
+  "theguardian.com",
+  "cnn.com",
+  "premiumtimesng.com",
+  "punchng.com",
+  "thecable.ng",
+].map((domain) => ({ domain, credibility: 0.8, category: SourceDomainCategory.TIER1_MEDIA }));
+
+/** "https://www.Punchng.com/x" or "punchng.com" → "punchng.com" */
+export function normalizeDomain(input: string) {
+  const value = input.trim().toLowerCase();
+  const host = /^[a-z][a-z0-9+.-]*:\/\//.test(value) ? new URL(value).hostname : value.split("/")[0];
+  return host.replace(/^www\./, "").replace(/\.$/, "");
+}
+
+/* ------------------------------------------------------------
+ * 🧩 Registry cache (per client)
+ * ------------------------------------------------------------ */
+type Registry = Map<string, Omit<DomainRating, "source">>;
+const registryCache = new Map<string, { registry: Registry; loadedAt: number }>();
+
+export async function getDomainRegistry(clientId: string): Promise<Registry> {
+  const cached = registryCache.get(clientId);
+  if (cached && Date.now() - cached.loadedAt < REGISTRY_TTL_MS) return cached.registry;
+
+  const rows = await prisma.sourceDomain.findMany({ where: { clientId } });
+  const registry: Registry = new Map(
+    rows.map((r) => [r.domain, { domain: r.domain, credibility: r.credibility, category: r.category }])
+  );
+  registryCache.set(clientId, { registry, loadedAt: Date.now() });
+  return registry;
+}
+
+export function invalidateDomainRegistry(clientId: string) {
+  registryCache.delete(clientId);
+}
+
+/** Exact host first, then parent domains ("news.bbc.com" → "bbc.com") */
+function lookup<T>(entries: Map<string, T>, host: string) {
+  const parts = host.split(".");
+  for (let i = 0; i < parts.length - 1; i++) {
+    const hit = entries.get(parts.slice(i).join("."));
+    if (hit) return hit;
+  }
+  return undefined;
+}
+
+const defaults = new Map(DEFAULT_SOURCE_DOMAINS.map((d) => [d.domain, d]));
+
+export function rateDomain(registry: Registry, url: string, brand?: Pick<Brand, "websiteUrl">): DomainRating {
+  let host: string;
+  try {
+    host = normalizeDomain(url);
+  } catch {
+    return { domain: url, credibility: UNKNOWN_DOMAIN_CREDIBILITY, category: SourceDomainCategory.OTHER, source: "unknown" };
+  }
+
+  const registered = lookup(registry, host);
+  if (registered) return { ...registered, source: "registry" };
+
+  const builtIn = lookup(defaults, host);
+  if (builtIn) return { ...builtIn, source: "default" };
+
+  if (brand?.websiteUrl) {
+    const official = normalizeDomain(brand.websiteUrl);
+    if (host === official || host.endsWith(`.${official}`)) {
+      return { domain: official, credibility: OFFICIAL_DOMAIN_CREDIBILITY, category: SourceDomainCategory.OFFICIAL, source: "brand" };
+    }
+  }
+
+  return { domain: host, credibility: UNKNOWN_DOMAIN_CREDIBILITY, category: SourceDomainCategory.OTHER, source: "unknown" };
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Scoring
+ * ------------------------------------------------------------ */
+type ScorableItem = { url: string; authors: string[]; publishedAt: Date | null };
+
+/** Domain credibility + small bonuses for a named author and a publish date */
+export function scoreWithRegistry(registry: Registry, item: ScorableItem, brand?: Pick<Brand, "websiteUrl">) {
+  let score = rateDomain(registry, item.url, brand).credibility;
+  if (item.authors.length > 0) score += AUTHOR_BONUS;
+  if (item.publishedAt) score += PUBLISHED_DATE_BONUS;
+  return Math.min(1, Math.max(0, score));
+}
+
+export async function scoreCredibility(brand: Pick<Brand, "clientId" | "websiteUrl">, item: ScorableItem) {
+  return scoreWithRegistry(await getDomainRegistry(brand.clientId), item, brand);
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ Management (API)
+ * ------------------------------------------------------------ */
+export type SourceDomainInput = Partial<{
+  domain: string;
+  credibility: number;
+  category: SourceDomainCategory;
+  notes: string | null;
+}>;
+
+export function validateSourceDomainInput(body: any, partial: boolean) {
+  const errors: string[] = [];
+  const data: SourceDomainInput = {};
+  body = body ?? {};
+
+  if (body.domain !== undefined || !partial) {
+    try {
+      if (typeof body.domain !== "string") throw new Error();
+      const domain = normalizeDomain(body.domain);
+      if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) throw new Error();
+      data.domain = domain;
+    } catch {
+      errors.push("domain must be a host name such as punchng.com");
+    }
+  }
+
+  if (body.credibility !== undefined || !partial) {
+    const c = body.credibility;
+    if (typeof c !== "number" || !Number.isFinite(c) || c < 0 || c > 1) {
+      errors.push("credibility must be a number between 0 and 1");
+    } else {
+      data.credibility = c;
+    }
+  }
+
+  if (body.category !== undefined || !partial) {
+    if (!Object.values(SourceDomainCategory).includes(body.category)) {
+      errors.push(`category must be one of ${Object.values(SourceDomainCategory).join(", ")}`);
+    } else {
+      data.category = body.category;
+    }
+  }
+
+  if (body.notes !== undefined) {
+    if (body.notes === null || body.notes === "") data.notes = null;
+    else if (typeof body.notes !== "string" || body.notes.length > 2000) {
+      errors.push("notes must be a string of at most 2000 characters");
+    } else data.notes = body.notes.trim();
+  }
+
+  return { data, errors };
+}
+
+export async function createSourceDomain(clientId: string, data: SourceDomainInput) {
+  const row = await prisma.sourceDomain.create({
+    data: {
+      clientId,
+      domain: data.domain!,
+      credibility: data.credibility!,
+      category: data.category!,
+      notes: data.notes ?? null,
+    },
+  });
+  invalidateDomainRegistry(clientId);
+  return row;
+}
+
+export async function updateSourceDomain(clientId: string, id: string, data: SourceDomainInput) {
+  const row = await prisma.sourceDomain.update({ where: { id }, data });
+  invalidateDomainRegistry(clientId);
+  return row;
+}
+
+export async function deleteSourceDomain(clientId: string, id: string) {
+  await prisma.sourceDomain.delete({ where: { id } });
+  invalidateDomainRegistry(clientId);
+}
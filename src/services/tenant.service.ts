@@ -0,0 +1,44 @@
+/**
+ * tenant.service.ts — Client (tenant) scoping helpers
+ * ------------------------------------------------------------
+ * Every API query must be limited to brands owned by the
+ * caller's Client. Cross-tenant IDs resolve to `null` so the
+ * routes answer 404 and never reveal that the row exists.
+ * ------------------------------------------------------------
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db/client";
+
+/**
+ * Builds the brand filter for a client, optionally narrowed to one brand.
+ * Returns null when `brandId` is not a brand of this client.
+ */
+export async function resolveBrandScope(
+  clientId: string,
+  brandId?: unknown
+): Promise<Prisma.BrandWhereInput | null> {
+  if (brandId === undefined || brandId === "") return { clientId };
+  if (typeof brandId !== "string") return null;
+
+  const brand = await prisma.brand.findFirst({
+    where: { id: brandId, clientId },
+    select: { id: true },
+  });
+
+  return brand ? { id: brand.id, clientId } : null;
+}
+
+export function findThreatForClient(clientId: string, threatId: string) {
+  return prisma.threat.findFirst({
+    where: { id: threatId, brand: { clientId } },
+    select: { id: true, brandId: true },
+  });
+}
+
+export function findResponseForClient(clientId: string, responseId: string) {
+  return prisma.response.findFirst({
+    where: { id: responseId, threat: { brand: { clientId } } },
+    select: { id: true, threatId: true },
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * text-diff.ts — Line diff for scraped content versions
+ * ------------------------------------------------------------
+ * LCS over non-empty lines; good enough for article-sized text.
+ * ------------------------------------------------------------
+ */
+
+export type DiffLine = { type: "added" | "removed" | "unchanged"; text: string };
+
+export type TextDiff = {
+  added: number;
+  removed: number;
+  unchanged: number;
+  lines: DiffLine[];
+};
+
+// beyond this many cells the LCS table is skipped and the texts are
+// reported as fully replaced
+const MAX_LCS_CELLS = 4_000_000;
+
+function toLines(text: string) {
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+export function diffText(before: string, after: string): TextDiff {
+  const a = toLines(before);
+  const b = toLines(after);
+  const lines: DiffLine[] = [];
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    lines.push(...a.map((text) => ({ type: "removed" as const, text })));
+    lines.push(...b.map((text) => ({ type: "added" as const, text })));
+  } else {
+    // lcs[i][j] = LCS length of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        lines.push({ type: "unchanged", text: a[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        lines.push({ type: "removed", text: a[i++] });
+      } else {
+        lines.push({ type: "added", text: b[j++] });
+      }
+    }
+    while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+    while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  }
+
+  return {
+    added: lines.filter((l) => l.type === "added").length,
+    removed: lines.filter((l) => l.type === "removed").length,
+    unchanged: lines.filter((l) => l.type === "unchanged").length,
+    lines,
+  };
+}
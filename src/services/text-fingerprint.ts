@@ -0,0 +1,154 @@
+/**
+ * text-fingerprint.ts — Near-duplicate fingerprints for article text
+ * ------------------------------------------------------------
+ * - SimHash (64-bit, term-frequency weighted words): small Hamming
+ *   distance = likely the same story with light edits
+ * - MinHash signature over 4-word shingles: estimates Jaccard
+ *   similarity, robust to added intros / trailing boilerplate
+ * - LSH band keys from both, stored on the item so candidates are
+ *   found with one indexed array lookup
+ * - A match needs estimated Jaccard ≥ 0.6; SimHash only widens the
+ *   candidate set
+ * ------------------------------------------------------------
+ */
+
+const SHINGLE_SIZE = 4;
+const MIN_TOKENS = 40; // shorter texts (teasers, error pages) are not fingerprinted
+const MINHASH_SIZE = 64;
+const MINHASH_ROWS_PER_BAND = 4; // 16 bands: ~90% recall at Jaccard 0.6
+const SIMHASH_BANDS = 4; // 16-bit bands: any pair within 3 bits shares one
+
+const MIN_JACCARD = 0.6;
+
+export type TextFingerprint = {
+  simhash: string; // 16 hex chars
+  minhash: number[]; // signed 32-bit (Postgres int4)
+  bands: string[];
+};
+
+/* ------------------------------------------------------------
+ * 🧩 Hashing
+ * ------------------------------------------------------------ */
+/** FNV-1a, 32-bit */
+function fnv32(text: string, seed = 0x811c9dc5) {
+  let h = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** murmur3 finalizer — spreads one hash into an independent-looking one per seed */
+function mix32(h: number) {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+// fixed seeds: signatures must stay comparable across deploys
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mix32(0x9e3779b9 + i * 0x7f4a7c15));
+
+function popcount32(n: number) {
+  n = n - ((n >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (Math.imul((n + (n >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24) & 0xff;
+}
+
+/* ------------------------------------------------------------
+ * 1️⃣ Fingerprint
+ * ------------------------------------------------------------ */
+function tokenize(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .split(" ")
+    .filter((t) => t.length > 1);
+}
+
+function simhash(tokens: string[]) {
+  const weights = new Map<string, number>();
+  for (const t of tokens) weights.set(t, (weights.get(t) ?? 0) + 1);
+
+  const vector = new Array<number>(64).fill(0);
+  for (const [token, weight] of weights) {
+    const halves = [fnv32(token), fnv32(token, 0x01000193)];
+    for (let bit = 0; bit < 64; bit++) {
+      const set = (halves[bit >> 5] >>> (bit & 31)) & 1;
+      vector[bit] += set ? weight : -weight;
+    }
+  }
+
+  const halves = [0, 0];
+  vector.forEach((v, bit) => {
+    if (v > 0) halves[bit >> 5] |= 1 << (bit & 31);
+  });
+  return halves.map((h) => (h >>> 0).toString(16).padStart(8, "0")).join("");
+}
+
+function minhash(tokens: string[]) {
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    const h = fnv32(tokens.slice(i, i + SHINGLE_SIZE).join(" "));
+    for (let k = 0; k < MINHASH_SIZE; k++) {
+      const v = mix32(h ^ MINHASH_SEEDS[k]);
+      if (v < signature[k]) signature[k] = v;
+    }
+  }
+  return signature.map((v) => v | 0);
+}
+
+function bandKeys(simhashHex: string, signature: number[]) {
+  const keys: string[] = [];
+  const width = simhashHex.length / SIMHASH_BANDS;
+  for (let b = 0; b < SIMHASH_BANDS; b++) {
+    keys.push(`s${b}:${simhashHex.slice(b * width, (b + 1) * width)}`);
+  }
+  for (let b = 0; b * MINHASH_ROWS_PER_BAND < signature.length; b++) {
+    const rows = signature.slice(b * MINHASH_ROWS_PER_BAND, (b + 1) * MINHASH_ROWS_PER_BAND);
+    keys.push(`m${b}:${fnv32(rows.join(",")).toString(16)}`);
+  }
+  return keys;
+}
+
+/** null when the text is too short to fingerprint reliably */
+export function fingerprintText(text: string): TextFingerprint | null {
+  const tokens = tokenize(text);
+  if (tokens.length < MIN_TOKENS) return null;
+
+  const hash = simhash(tokens);
+  const signature = minhash(tokens);
+  return { simhash: hash, minhash: signature, bands: bandKeys(hash, signature) };
+}
+
+/* ------------------------------------------------------------
+ * 2️⃣ Comparison
+ * ------------------------------------------------------------ */
+export function hammingDistance(a: string, b: string) {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    distance += popcount32(parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16));
+  }
+  return distance;
+}
+
+/** Share of equal MinHash rows ≈ Jaccard similarity of the shingle sets */
+export function estimateJaccard(a: number[], b: number[]) {
+  if (!a.length || a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] === b[i]) equal++;
+  return equal / a.length;
+}
+
+/**
+ * Estimated Jaccard similarity (0..1), or null when the texts are not
+ * near-duplicates. SimHash and the band keys only pick candidates: on
+ * short, formulaic texts unrelated stories land within a few bits.
+ */
+export function nearDuplicateScore(a: Pick<TextFingerprint, "minhash">, b: Pick<TextFingerprint, "minhash">) {
+  const jaccard = estimateJaccard(a.minhash, b.minhash);
+  return jaccard >= MIN_JACCARD ? jaccard : null;
+}
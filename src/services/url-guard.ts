@@ -0,0 +1,132 @@
+/**
+ * url-guard.ts — Keeps the crawler on the public internet
+ * ------------------------------------------------------------
+ * - Source URLs are tenant input: loopback, private (RFC1918),
+ *   link-local (cloud metadata), CGNAT, multicast and reserved
+ *   addresses are refused
+ * - Checked before the request, on every redirect hop, and again
+ *   at connect time through the agents' DNS lookup (no rebinding)
+ * - CRAWL_ALLOW_PRIVATE_HOSTS=true turns the guard off (local
+ *   development against a test server)
+ * ------------------------------------------------------------
+ */
+
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import fetch, { RequestInit, Response } from "node-fetch";
+
+const MAX_REDIRECTS = 5;
+
+export class BlockedAddressError extends Error {
+  constructor(public url: string, public address: string) {
+    super(`Refusing to fetch ${url}: ${address} is not a public address`);
+  }
+}
+
+const blocked = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blocked.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64 of anything, including private v4
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blocked.addSubnet(prefix, bits, "ipv6");
+}
+
+function guardDisabled() {
+  return process.env.CRAWL_ALLOW_PRIVATE_HOSTS === "true";
+}
+
+export function isPublicAddress(address: string) {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPublicAddress(mapped[1]);
+
+  const family = net.isIP(address);
+  if (family === 4) return !blocked.check(address, "ipv4");
+  if (family === 6) return !blocked.check(address, "ipv6");
+  return false;
+}
+
+/**
+ * Throws BlockedAddressError unless every address the URL's host
+ * resolves to is public. IP literals are checked as they are.
+ */
+export async function assertPublicUrl(url: string) {
+  if (guardDisabled()) return;
+
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "http:" && protocol !== "https:") throw new BlockedAddressError(url, protocol);
+
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = net.isIP(host)
+    ? [host]
+    : (await dns.promises.lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+
+  const bad = addresses.find((address) => !isPublicAddress(address));
+  if (bad) throw new BlockedAddressError(url, bad);
+}
+
+/* ------------------------------------------------------------
+ * 🧩 Connect-time check
+ * ------------------------------------------------------------ */
+// DNS can answer differently between the check and the connect, so the
+// sockets themselves only accept public addresses
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0);
+    const list = addresses as dns.LookupAddress[];
+    const bad = guardDisabled() ? undefined : list.find((a) => !isPublicAddress(a.address));
+    if (bad) return callback(new BlockedAddressError(hostname, bad.address), "", 0);
+
+    if ((options as dns.LookupAllOptions).all) (callback as any)(null, list);
+    else callback(null, list[0].address, list[0].family);
+  });
+};
+
+const httpAgent = new http.Agent({ keepAlive: true, lookup: guardedLookup });
+const httpsAgent = new https.Agent({ keepAlive: true, lookup: guardedLookup });
+
+/* ------------------------------------------------------------
+ * 1️⃣ Guarded fetch
+ * ------------------------------------------------------------ */
+/**
+ * node-fetch with redirects followed by hand so each hop is checked.
+ * The returned response's `url` is the final hop.
+ */
+export async function guardedFetch(url: string, init: Omit<RequestInit, "redirect" | "agent"> = {}) {
+  let current = url;
+  for (let hop = 0; ; hop++) {
+    await assertPublicUrl(current);
+    const res: Response = await fetch(current, {
+      ...init,
+      redirect: "manual",
+      agent: (parsed) => (parsed.protocol === "http:" ? httpAgent : httpsAgent),
+    });
+
+    const location = res.headers.get("location");
+    if (res.status < 300 || res.status >= 400 || res.status === 304 || !location) return res;
+    if (hop >= MAX_REDIRECTS) throw new Error(`Too many redirects from ${url}`);
+
+    res.body?.resume(); // release the socket
+    current = new URL(location, current).toString();
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * usage.service.ts — Subscription & Monthly Post Metering
+ * ------------------------------------------------------------
+ * - Blocks ingestion for SUSPENDED / CANCELLED clients
+ * - Meters posts analyzed per client per calendar month (UTC)
+ * - Signals "degraded" mode once monthlyPostLimit is exceeded
+ *   (detection continues keyword-only, without Groq calls)
+ * ------------------------------------------------------------
+ */
+
+import { prisma } from "../db/client";
+
+export const BLOCKED_SUBSCRIPTION_STATUSES = ["SUSPENDED", "CANCELLED"];
+
+export interface MeteringResult {
+  allowed: boolean; // false → do not create DetectedPost/Threat rows
+  degraded: boolean; // true → over quota, skip LLM analysis
+  postsAnalyzed: number;
+  monthlyPostLimit: number;
+}
+
+/** Calendar month key, e.g. "2026-10" */
+export function currentPeriod(date = new Date()) {
+  return date.toISOString().slice(0, 7);
+}
+
+export function isSubscriptionActive(status: string) {
+  return !BLOCKED_SUBSCRIPTION_STATUSES.includes(status.toUpperCase());
+}
+
+/**
+ * Records one analyzed post for the client and reports whether
+ * it may be stored and whether it must be analyzed in degraded mode.
+ */
+export async function meterPost(client: {
+  id: string;
+  subscriptionStatus: string;
+  monthlyPostLimit: number;
+}): Promise<MeteringResult> {
+  if (!isSubscriptionActive(client.subscriptionStatus)) {
+    return {
+      allowed: false,
+      degraded: false,
+      postsAnalyzed: 0,
+      monthlyPostLimit: client.monthlyPostLimit,
+    };
+  }
+
+  const period = currentPeriod();
+  const usage = await prisma.clientUsage.upsert({
+    where: { clientId_period: { clientId: client.id, period } },
+    update: { postsAnalyzed: { increment: 1 } },
+    create: { clientId: client.id, period, postsAnalyzed: 1 },
+  });
+
+  const degraded = usage.postsAnalyzed > client.monthlyPostLimit;
+  if (degraded) {
+    await prisma.clientUsage.update({
+      where: { id: usage.id },
+      data: { degradedPosts: { increment: 1 } },
+    });
+  }
+
+  return {
+    allowed: true,
+    degraded,
+    postsAnalyzed: usage.postsAnalyzed,
+    monthlyPostLimit: client.monthlyPostLimit,
+  };
+}
+
+/** Consumption against the limit for the current month */
+export async function getUsage(clientId: string) {
+  const period = currentPeriod();
+  const [client, usage] = await Promise.all([
+    prisma.client.findUnique({
+      where: { id: clientId },
+      select: { subscriptionStatus: true, monthlyPostLimit: true, tier: true },
+    }),
+    prisma.clientUsage.findUnique({
+      where: { clientId_period: { clientId, period } },
+    }),
+  ]);
+
+  if (!client) throw new Error("Client not found");
+
+  const postsAnalyzed = usage?.postsAnalyzed ?? 0;
+  const limit = client.monthlyPostLimit;
+
+  return {
+    period,
+    tier: client.tier,
+    subscriptionStatus: client.subscriptionStatus,
+    monthlyPostLimit: limit,
+    postsAnalyzed,
+    degradedPosts: usage?.degradedPosts ?? 0,
+    remaining: Math.max(0, limit - postsAnalyzed),
+    percentUsed: limit > 0 ? Math.round((postsAnalyzed / limit) * 1000) / 10 : 100,
+    overLimit: postsAnalyzed > limit,
+  };
+}
@@ -1,10 +1,27 @@
 // src/services/verification-response.service.ts
 import { PrismaClient, ResponseStatus } from "@prisma/client";
-import Groq from "groq-sdk";
 import fetch from "node-fetch";
+import { collapseClusters } from "./article-cluster.service";
+import { JsonSchema } from "./json-schema";
+import { languageName } from "./language";
+import { completeJson, completeText } from "./llm";
+import {
+  CREDIBLE_THRESHOLD,
+  getDomainRegistry,
+  scoreWithRegistry,
+} from "./source-domain.service";
 
 const prisma = new PrismaClient({ log: ["warn", "error"] });
-const groq = new Groq({ apiKey: process.env.GROQ_API_KEY! });
+
+const VERDICT_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["verdict", "confidence", "reason"],
+  properties: {
+    verdict: { enum: ["TRUE", "FALSE", "UNVERIFIED"] },
+    confidence: { type: "number", minimum: 0, maximum: 100 },
+    reason: { type: "string", maxLength: 500 },
+  },
+};
 
 /** 🔌 WebSocket broadcast helper (plugged by app.ts) */
 let wsBroadcast: ((event: string, payload: any) => void) | null = null;
@@ -21,7 +38,7 @@ export function getWsBroadcaster() {
 export async function verifyThreat(threatId: string) {
   const threat = await prisma.threat.findUnique({
     where: { id: threatId },
-    include: { detectedPost: true },
+    include: { detectedPost: true, brand: true },
   });
   if (!threat) throw new Error("Threat not found");
 
@@ -32,24 +49,34 @@ export async function verifyThreat(threatId: string) {
   const scraped = await prisma.scrapedItem.findMany({
     where: {
       source: { brandId },
+      // a news threat is not evidence for itself
+      ...(threat.scrapedItemId && { id: { not: threat.scrapedItemId } }),
       OR: [
         { title: { contains: firstKeyword, mode: "insensitive" } },
         { content: { contains: firstKeyword, mode: "insensitive" } },
       ],
     },
     orderBy: [{ publishedAt: "desc" }, { credibility: "desc" }],
-    take: 15,
+    take: 40,
   });
 
-  const credible = scraped.filter((s) => (s.credibility ?? 0.5) >= 0.7);
+  // re-scored against the current domain registry so analyst changes apply immediately;
+  // syndicated copies of one story count once (its most credible copy stands in)
+  const registry = await getDomainRegistry(threat.brand.clientId);
+  const stories = collapseClusters(
+    scraped
+      .map((s) => ({ ...s, credibility: scoreWithRegistry(registry, s, threat.brand) }))
+      .sort((a, b) => b.credibility - a.credibility)
+  ).slice(0, 15);
+  const credible = stories.filter((s) => s.credibility >= CREDIBLE_THRESHOLD);
 
   //let verificationStatus: "TRUE" | "FALSE" | "UNVERIFIED" = "UNVERIFIED";
   let verificationStatus = "UNVERIFIED";
   let verificationConfidence = 40;
   let verificationSummary = "No strong evidence found.";
-  const evidenceIds = scraped.map((s) => s.id);
+  const evidenceIds = stories.map((s) => s.id);
 
-  if (scraped.length === 0) {
+  if (stories.length === 0) {
     verificationStatus = "UNVERIFIED";
     verificationConfidence = 35;
     verificationSummary = "No relevant coverage found among trusted sources.";
@@ -59,19 +86,24 @@ export async function verifyThreat(threatId: string) {
     verificationSummary =
       "No trusted outlet confirms this claim; appears unsubstantiated.";
   } else {
+    // stance is towards the brand: critical coverage tends to support a
+    // negative claim, favourable coverage tends to contradict it
+    const stanceLabel = { POSITIVE: "favourable", NEUTRAL: "neutral", NEGATIVE: "critical" } as const;
     const headlines = credible
-      .slice(0, 5)
-      .map((s) => `- ${s.title ?? s.url}`)
+      .slice(0, 8)
+      .map((s) => {
+        const syndicated = s.copies > 1 ? `, syndicated ×${s.copies}` : "";
+        return `- [${s.stance ? stanceLabel[s.stance] : "unrated"}] ${s.title ?? s.url} (${new URL(s.url).hostname}${syndicated})`;
+      })
       .join("\n");
     try {
-      const judge = await groq.chat.completions.create({
-        model: "llama-3.3-70b-versatile",
-        temperature: 0.2,
-        messages: [
+      const parsed = await completeJson<{ verdict: string; confidence: number; reason: string }>(
+        "claim-verification",
+        [
           {
             role: "system",
             content:
-              "You judge whether a social claim is confirmed by the listed sources. Return JSON only.",
+              "You judge whether a claim about a brand is confirmed by the listed sources. Each source is an independent story (republished copies are already merged) tagged with its stance towards the brand; weigh supporting and contradicting coverage. Return JSON only.",
           },
           {
             role: "user",
@@ -85,17 +117,14 @@ Return JSON:
 `,
           },
         ],
-      });
-
-      const raw = judge.choices[0]?.message?.content?.trim() ?? "";
-      const parsed = JSON.parse(raw);
-      verificationStatus = (parsed.verdict ?? "UNVERIFIED") as typeof verificationStatus;
-      verificationConfidence = Math.max(
-        0,
-        Math.min(100, Number(parsed.confidence) || 60)
+        VERDICT_SCHEMA
       );
+
+      verificationStatus = parsed.verdict;
+      verificationConfidence = parsed.confidence;
       verificationSummary = parsed.reason || "LLM judge summary";
-    } catch {
+    } catch (err: any) {
+      console.warn(`⚠️ Verification judge failed for threat ${threatId}: ${err.message}`);
       verificationStatus = "UNVERIFIED";
       verificationConfidence = 60;
       verificationSummary = "Judge fallback";
@@ -112,7 +141,14 @@ Return JSON:
     },
   });
 
-  return { verificationStatus, verificationConfidence, verificationSummary, evidenceIds };
+  return {
+    verificationStatus,
+    verificationConfidence,
+    verificationSummary,
+    evidenceIds,
+    independentSources: credible.length,
+    origin: threat.origin,
+  };
 }
 
 /** [4][5] Generate a confident response when claim is FALSE; store as PENDING */
@@ -123,12 +159,19 @@ export async function generateResponseForFalse(threatId: string) {
   });
 
   if (!threat) throw new Error("Threat not found");
+  if (threat.origin === "NEWS") throw new Error("News-origin threats are not replied to");
 
   const claim = threat.detectedPost.content;
   const brandName = threat.brand.name;
+  // replies match the post's language (English when undetermined)
+  const replyLanguage = languageName(threat.detectedPost.language);
 
+  // critical coverage is never cited in a correction
   const evidence = await prisma.scrapedItem.findMany({
-    where: { id: { in: threat.verificationEvidenceIds ?? [] } },
+    where: {
+      id: { in: threat.verificationEvidenceIds ?? [] },
+      OR: [{ stance: null }, { stance: { not: "NEGATIVE" } }],
+    },
     orderBy: [{ credibility: "desc" }, { publishedAt: "desc" }],
     take: 3,
   });
@@ -147,10 +190,9 @@ const verifiedSourcesHTML =
       </ul>`;
 
   // 🔹 LLM prompt WITHOUT sources
-  const completion = await groq.chat.completions.create({
-    model: "llama-3.3-70b-versatile",
-    temperature: 0.2,
-    messages: [
+  let rawContent: string;
+  try {
+    rawContent = await completeText("response-draft", [
       {
         role: "system",
         content:
@@ -161,14 +203,13 @@ const verifiedSourcesHTML =
         content: `Brand: ${brandName}
 Claim: "${claim}"
 
-Write a concise correction that clearly states the claim is false. No more than 450 characters. Return *only* the correction text.`,
+Write a concise correction in ${replyLanguage} that clearly states the claim is false. No more than 450 characters. Return *only* the correction text.`,
       },
-    ],
-  });
-
-  let rawContent =
-    completion.choices[0]?.message?.content?.trim() ||
-    `${brandName}: This claim is incorrect. Operations remain normal.`;
+    ]);
+  } catch (err: any) {
+    console.warn(`⚠️ Response draft failed for threat ${threatId}: ${err.message}`);
+    rawContent = `${brandName}: This claim is incorrect. Operations remain normal.`;
+  }
 
   // 🔹 Enforce max character limit ~580
   if (rawContent.length > 580) {
@@ -441,10 +482,15 @@ export async function handleThreatVerifyRespond(
   threatId: string,
   autopost = false
 ) {
-  const { verificationStatus } = await verifyThreat(threatId);
+  const { verificationStatus, origin } = await verifyThreat(threatId);
 
   console.log("verificationStatus:", verificationStatus);
 
+  // news coverage is tracked and verified, never answered
+  if (origin === "NEWS") {
+    return { verified: verificationStatus === "TRUE", action: "news_tracked", status: verificationStatus };
+  }
+
   // ✅ Correct logic: only FALSE or UNVERIFIED trigger responses
   if (verificationStatus === "FALSE" || verificationStatus === "UNVERIFIED") {
     const resp = await generateResponseForFalse(threatId);
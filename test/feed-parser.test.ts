@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { FeedParseError, htmlToText, parseFeed } from "../src/services/feed-parser";
+
+const RSS = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>Business</title>
+    <item>
+      <title>Zenith Bank &amp; the naira</title>
+      <link>/business/zenith-naira</link>
+      <dc:creator>Ada Obi</dc:creator>
+      <author>Ada Obi</author>
+      <pubDate>Mon, 06 Oct 2025 09:30:00 +0100</pubDate>
+      <description><![CDATA[<p>Short <b>summary</b></p>]]></description>
+      <content:encoded><![CDATA[<p>First paragraph.</p><p>Second paragraph.</p>]]></content:encoded>
+      <category>Banking</category>
+      <category>Markets</category>
+    </item>
+    <item>
+      <title>Permalink guid</title>
+      <guid>https://news.example.com/guid-story</guid>
+    </item>
+    <item>
+      <title>Opaque guid, no link</title>
+      <guid isPermaLink="false">tag:news.example.com,2025:4711</guid>
+    </item>
+    <item>
+      <title>Blank link</title>
+      <link>   </link>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Press</title>
+  <entry>
+    <title type="html">Results &lt;b&gt;H1&lt;/b&gt;</title>
+    <link rel="self" href="https://press.example.com/feed/1"/>
+    <link rel="alternate" href="https://press.example.com/h1-results"/>
+    <author><name>Press Office</name></author>
+    <updated>2025-10-01T08:00:00Z</updated>
+    <summary>Half-year results</summary>
+    <category term="results"/>
+  </entry>
+</feed>`;
+
+describe("parseFeed", () => {
+  it("normalizes RSS items and resolves relative links", () => {
+    const [first, second] = parseFeed(RSS, "https://news.example.com/rss");
+    assert.deepEqual(first, {
+      title: "Zenith Bank & the naira",
+      url: "https://news.example.com/business/zenith-naira",
+      authors: ["Ada Obi"],
+      publishedAt: new Date("2025-10-06T08:30:00Z"),
+      summary: "Short summary",
+      content: "First paragraph.\nSecond paragraph.",
+      categories: ["Banking", "Markets"],
+    });
+    assert.equal(second.url, "https://news.example.com/guid-story");
+  });
+
+  it("drops items without a usable link instead of pointing them at the feed", () => {
+    const urls = parseFeed(RSS, "https://news.example.com/rss").map((e) => e.url);
+    assert.deepEqual(urls, ["https://news.example.com/business/zenith-naira", "https://news.example.com/guid-story"]);
+    assert.deepEqual(parseFeed(ATOM.replace(/<link[^>]*\/>/g, ""), "https://press.example.com/feed"), []);
+  });
+
+  it("reads Atom entries, preferring the alternate link", () => {
+    const [entry] = parseFeed(ATOM);
+    assert.equal(entry.title, "Results H1");
+    assert.equal(entry.url, "https://press.example.com/h1-results");
+    assert.deepEqual(entry.authors, ["Press Office"]);
+    assert.deepEqual(entry.publishedAt, new Date("2025-10-01T08:00:00Z"));
+    assert.deepEqual(entry.categories, ["results"]);
+  });
+
+  it("rejects documents that are not feeds", () => {
+    assert.throws(() => parseFeed("<html><body>Not a feed</body></html>"), FeedParseError);
+  });
+});
+
+describe("htmlToText", () => {
+  it("drops scripts and keeps block breaks", () => {
+    assert.equal(htmlToText("<p>One</p><script>x()</script><ul><li>Two</li></ul>"), "One\nTwo");
+    assert.equal(htmlToText(""), "");
+  });
+});
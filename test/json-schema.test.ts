@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { JsonSchema, sampleFromSchema, validateJson } from "../src/services/json-schema";
+
+const VERDICT: JsonSchema = {
+  type: "object",
+  required: ["verdict", "confidence", "sources"],
+  additionalProperties: false,
+  properties: {
+    verdict: { enum: ["TRUE", "FALSE", "UNVERIFIED"] },
+    confidence: { type: "number", minimum: 0, maximum: 100 },
+    reason: { type: "string", minLength: 3, maxLength: 20 },
+    sources: { type: "array", items: { type: "string" }, minItems: 1, maxItems: 2 },
+  },
+};
+
+describe("validateJson", () => {
+  it("accepts a valid value", () => {
+    assert.deepEqual(validateJson({ verdict: "FALSE", confidence: 80, reason: "wire copy", sources: ["a"] }, VERDICT), []);
+  });
+
+  it("reports every violation with its path", () => {
+    const errors = validateJson(
+      { verdict: "MAYBE", confidence: 140, reason: "ok", sources: [1, "b", "c"], extra: true },
+      VERDICT
+    );
+    assert.deepEqual(errors, [
+      '$.verdict: must be one of "TRUE", "FALSE", "UNVERIFIED"',
+      "$.confidence: must be ≤ 100",
+      "$.reason: must be at least 3 characters",
+      "$.sources: must have at most 2 items",
+      "$.sources[0]: expected string, got integer",
+      "$.extra: is not allowed",
+    ]);
+  });
+
+  it("reports missing required properties and wrong types", () => {
+    assert.deepEqual(validateJson({ verdict: "TRUE" }, VERDICT), ["$.confidence: is required", "$.sources: is required"]);
+    assert.deepEqual(validateJson([], VERDICT), ["$: expected object, got array"]);
+    assert.deepEqual(validateJson(null, { type: ["string", "null"] }), []);
+  });
+
+  it("treats integers as numbers but not the reverse", () => {
+    assert.deepEqual(validateJson(3, { type: "number" }), []);
+    assert.deepEqual(validateJson(3.5, { type: "integer" }), ["$: expected integer, got number"]);
+  });
+});
+
+describe("sampleFromSchema", () => {
+  it("builds the smallest valid value", () => {
+    const sample = sampleFromSchema(VERDICT);
+    assert.deepEqual(sample, { verdict: "TRUE", confidence: 0, sources: [""] });
+    assert.deepEqual(validateJson(sample, VERDICT), []);
+  });
+});
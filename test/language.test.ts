@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  analyzeLocalSentiment,
+  detectLanguage,
+  foldDiacritics,
+  languageName,
+  parseLanguage,
+} from "../src/services/language";
+
+describe("detectLanguage", () => {
+  const samples: [string, string][] = [
+    ["en", "The bank said that the outage was fixed and customers should retry their transfers."],
+    ["pcm", "Abeg wetin dey happen for this bank? Dem don hold my money since morning, wahala no dey finish."],
+    ["yo", "Mo fe mo idi ti won fi gba owo mi lati inu account naa, sugbon ko si esi kankan."],
+    ["ha", "Wannan banki yana karɓar kudi daga mutane amma babu wani bayani, suna cewa matsala ce."],
+    ["ig", "Biko, unu ga-enyere m aka? Ego m adighi na akaụntụ m kemgbe ụnyaahụ."],
+  ];
+
+  for (const [expected, text] of samples) {
+    it(`identifies ${languageName(expected)}`, () => {
+      const { language, confidence } = detectLanguage(text);
+      assert.equal(language, expected);
+      assert.ok(confidence > 0 && confidence <= 1);
+    });
+  }
+
+  it("returns null for short or unrecognisable text", () => {
+    assert.deepEqual(detectLanguage("ok"), { language: null, confidence: 0 });
+    assert.deepEqual(detectLanguage("https://t.co/x #zenith @bank 12345 qwxz vbnm"), { language: null, confidence: 0 });
+  });
+});
+
+describe("language helpers", () => {
+  it("folds diacritics but keeps hooked Hausa letters", () => {
+    assert.equal(foldDiacritics("Ẹ̀kọ́ ọjà ɓarna"), "Eko oja ɓarna");
+  });
+
+  it("parses codes and names languages", () => {
+    assert.equal(parseLanguage(" YO "), "yo");
+    assert.equal(parseLanguage("fr"), null);
+    assert.equal(parseLanguage(42), null);
+    assert.equal(languageName("pcm"), "Nigerian Pidgin");
+    assert.equal(languageName(null), "English");
+  });
+});
+
+describe("analyzeLocalSentiment", () => {
+  it("scores local words in their language only", () => {
+    assert.ok(analyzeLocalSentiment("dem be scammer, pure wahala", "pcm").score < 0);
+    assert.equal(analyzeLocalSentiment("wahala", "en").score, 0);
+  });
+
+  it("keeps English words for code-mixed posts", () => {
+    assert.ok(analyzeLocalSentiment("this bank is terrible, ole ni awon", "yo").score <= -6);
+  });
+});
@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { JsonSchema } from "../src/services/json-schema";
+import {
+  completeJson,
+  completeText,
+  CompletionRequest,
+  FakeLlmProvider,
+  LlmError,
+  LlmOutputError,
+  LlmProvider,
+  modelFor,
+  setLlmProvider,
+} from "../src/services/llm";
+
+const SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["sentiment", "score"],
+  properties: {
+    sentiment: { enum: ["POSITIVE", "NEUTRAL", "NEGATIVE"] },
+    score: { type: "number", minimum: -1, maximum: 1 },
+  },
+};
+
+const ASK = [{ role: "user" as const, content: "Classify: the app is down again" }];
+
+/** Fails with `error` for the first `failures` calls, then delegates */
+class FlakyProvider implements LlmProvider {
+  readonly name = "flaky";
+  readonly defaultModel = "flaky-model";
+  calls = 0;
+
+  constructor(private failures: number, private error: LlmError, private next: LlmProvider) {}
+
+  async complete(request: CompletionRequest) {
+    if (this.calls++ < this.failures) throw this.error;
+    return this.next.complete(request);
+  }
+}
+
+afterEach(() => setLlmProvider(null));
+
+describe("completeJson", () => {
+  it("repairs code fences, surrounding prose and trailing commas", async () => {
+    const fake = new FakeLlmProvider().script(
+      "post-sentiment",
+      'Sure! Here it is:\n```json\n{"sentiment": "NEGATIVE", "score": -0.8,}\n```'
+    );
+    setLlmProvider(fake);
+
+    assert.deepEqual(await completeJson("post-sentiment", ASK, SCHEMA), { sentiment: "NEGATIVE", score: -0.8 });
+    assert.equal(fake.calls.length, 1);
+    assert.deepEqual(fake.calls[0].schema, SCHEMA);
+  });
+
+  it("re-asks the model with the validation errors", async () => {
+    const fake = new FakeLlmProvider().script(
+      "post-sentiment",
+      '{"sentiment": "ANGRY", "score": -3}',
+      '{"sentiment": "NEGATIVE", "score": -0.6}'
+    );
+    setLlmProvider(fake);
+
+    assert.deepEqual(await completeJson("post-sentiment", ASK, SCHEMA), { sentiment: "NEGATIVE", score: -0.6 });
+    assert.equal(fake.calls.length, 2);
+
+    const retry = fake.calls[1].messages;
+    assert.equal(retry.length, 3);
+    assert.deepEqual(retry[1], { role: "assistant", content: '{"sentiment": "ANGRY", "score": -3}' });
+    assert.match(retry[2].content, /\$\.sentiment: must be one of/);
+    assert.match(retry[2].content, /\$\.score: must be ≥ -1/);
+  });
+
+  it("throws LlmOutputError once the attempts run out", async () => {
+    const fake = new FakeLlmProvider().script("post-sentiment", "no idea", "still no idea", "{}", "unused");
+    setLlmProvider(fake);
+
+    await assert.rejects(completeJson("post-sentiment", ASK, SCHEMA), (err: unknown) => {
+      assert.ok(err instanceof LlmOutputError);
+      assert.equal(err.raw, "{}");
+      assert.deepEqual(err.errors, ["$.sentiment: is required", "$.score: is required"]);
+      return true;
+    });
+    assert.equal(fake.calls.length, 3);
+  });
+
+  it("retries a retryable provider error once", async () => {
+    const flaky = new FlakyProvider(1, new LlmError("flaky", "HTTP 503", true), new FakeLlmProvider());
+    setLlmProvider(flaky);
+
+    assert.deepEqual(await completeJson("post-sentiment", ASK, SCHEMA), { sentiment: "POSITIVE", score: 0 });
+    assert.equal(flaky.calls, 2);
+  });
+
+  it("does not retry other provider errors", async () => {
+    const flaky = new FlakyProvider(1, new LlmError("flaky", "HTTP 401"), new FakeLlmProvider());
+    setLlmProvider(flaky);
+
+    await assert.rejects(completeJson("post-sentiment", ASK, SCHEMA), /HTTP 401/);
+    assert.equal(flaky.calls, 1);
+  });
+});
+
+describe("completeText", () => {
+  it("returns the trimmed completion", async () => {
+    setLlmProvider(new FakeLlmProvider().script("response-draft", "  Operations remain normal.  \n"));
+    assert.equal(await completeText("response-draft", ASK), "Operations remain normal.");
+  });
+
+  it("throws on an empty completion", async () => {
+    setLlmProvider(new FakeLlmProvider().script("response-draft", "   ", ""));
+    await assert.rejects(completeText("response-draft", ASK), LlmError);
+  });
+});
+
+describe("modelFor", () => {
+  it("prefers the per-task model, then LLM_MODEL, then the provider default", () => {
+    const fake = new FakeLlmProvider();
+    assert.equal(modelFor("crisis-scenario", fake), process.env.LLM_MODEL || "fake-model");
+
+    process.env.LLM_MODEL_CRISIS_SCENARIO = "big-model";
+    try {
+      assert.equal(modelFor("crisis-scenario", fake), "big-model");
+    } finally {
+      delete process.env.LLM_MODEL_CRISIS_SCENARIO;
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildMonitorQuery, compileQuery, parseQuery, QueryParseError } from "../src/services/monitor-query";
+
+const matches = (query: string, text: string) => compileQuery(query).match(text).matched;
+
+describe("parseQuery", () => {
+  it("gives AND precedence over OR", () => {
+    assert.deepEqual(parseQuery("a OR b c"), {
+      type: "or",
+      children: [
+        { type: "term", value: "a", kind: "word", prefix: false, source: "a" },
+        {
+          type: "and",
+          children: [
+            { type: "term", value: "b", kind: "word", prefix: false, source: "b" },
+            { type: "term", value: "c", kind: "word", prefix: false, source: "c" },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("reports the position of syntax errors", () => {
+    assert.throws(() => parseQuery('zenith "card'), (err: unknown) => err instanceof QueryParseError && err.position === 7);
+    assert.throws(() => parseQuery("(zenith OR gtb"), QueryParseError);
+    assert.throws(() => parseQuery("zenith AND"), QueryParseError);
+    assert.throws(() => parseQuery("   "), QueryParseError);
+  });
+
+  it("rejects queries without a positive term", () => {
+    for (const query of ["NOT refund", "-refund -chargeback", "zenith OR -refund", "NOT (zenith AND refund)"]) {
+      assert.throws(() => parseQuery(query), /term that is not negated/, query);
+    }
+    assert.doesNotThrow(() => parseQuery("-refund zenith"));
+    assert.doesNotThrow(() => parseQuery("(zenith OR gtb) NOT (refund OR job)"));
+  });
+
+  it("only lets NEAR join words and phrases", () => {
+    assert.throws(() => parseQuery("(a OR b) NEAR/3 c"), /NEAR only joins/);
+  });
+});
+
+describe("compileQuery", () => {
+  it("matches boolean logic on word boundaries, case-insensitively", () => {
+    const query = 'zenith AND (debit OR "card blocked")';
+    assert.equal(matches(query, "Zenith bank: my CARD BLOCKED again"), true);
+    assert.equal(matches(query, "zenith debit alert"), true);
+    assert.equal(matches(query, "zenithbank debit"), false);
+    assert.equal(matches(query, "zenith branch opening"), false);
+  });
+
+  it("excludes with NOT and -", () => {
+    assert.equal(matches("zenith -refund", "zenith refund delayed"), false);
+    assert.equal(matches("zenith NOT refund", "zenith app is down"), true);
+  });
+
+  it("keeps hashtags and mentions to their token kind", () => {
+    assert.equal(matches("#zenith", "#zenith is trending"), true);
+    assert.equal(matches("#zenith", "zenith is trending"), false);
+    assert.equal(matches("@zenithbank", "ask @ZenithBank"), true);
+    assert.equal(matches("zenith", "#zenith is trending"), true);
+  });
+
+  it("supports prefix terms", () => {
+    assert.equal(matches("bank*", "the banking app"), true);
+    assert.equal(matches("bank*", "riverbank"), false);
+  });
+
+  it("matches NEAR in either order within the distance", () => {
+    assert.equal(matches('"zenith" NEAR/2 "debit"', "debit from my zenith"), true);
+    assert.equal(matches('"zenith" NEAR/2 "debit"', "zenith sent me one two three debit"), false);
+  });
+
+  it("returns the positive terms that hit", () => {
+    const result = compileQuery("(zenith OR gtb) AND fraud -refund").match("GTB fraud alert");
+    assert.deepEqual(result, { matched: true, terms: ["gtb", "fraud"] });
+  });
+});
+
+describe("buildMonitorQuery", () => {
+  it("ORs legacy keywords as exact words or phrases and applies excludes", () => {
+    const query = buildMonitorQuery({ query: null, keywords: ["zenith bank", "ziva"], excludeKeywords: ["job"] });
+    assert.equal(query.match("Zenith Bank froze my account").matched, true);
+    assert.equal(query.match("ZiVA is not replying").matched, true);
+    assert.equal(query.match("zenith job openings at the bank").matched, false);
+    assert.equal(query.match("zenith hiring").matched, false);
+  });
+
+  it("uses the query instead of the keywords when both are set", () => {
+    const query = buildMonitorQuery({ query: "ziva NEAR/3 down", keywords: ["zenith"], excludeKeywords: [] });
+    assert.equal(query.match("ziva is down again").matched, true);
+    assert.equal(query.match("zenith branch opening").matched, false);
+  });
+
+  it("matches nothing without a query or keywords", () => {
+    const query = buildMonitorQuery({ query: "  ", keywords: [], excludeKeywords: ["spam"] });
+    assert.equal(query.ast, null);
+    assert.equal(query.match("anything").matched, false);
+  });
+});
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { validateMonitorInput } from "../src/services/monitor.service";
+
+const queryOnly = { query: "zenith AND fraud", keywords: [], excludeKeywords: [] };
+const keywordsOnly = { query: null, keywords: ["zenith", "ziva"], excludeKeywords: ["job"] };
+
+describe("validateMonitorInput", () => {
+  it("requires keywords or a query on create", () => {
+    assert.deepEqual(validateMonitorInput({ name: "Watch", keywords: [] }).errors, [
+      "keywords must contain at least one keyword when there is no query",
+    ]);
+    assert.deepEqual(validateMonitorInput({ name: "Watch", query: "zenith" }).errors, []);
+  });
+
+  it("rejects removing the query from a query-only monitor", () => {
+    assert.deepEqual(validateMonitorInput({ query: null }, queryOnly).errors, [
+      "keywords must contain at least one keyword when there is no query",
+    ]);
+    assert.deepEqual(validateMonitorInput({ query: null, keywords: ["zenith"] }, queryOnly).errors, []);
+  });
+
+  it("accepts empty keywords when the stored monitor has a query", () => {
+    const { data, errors } = validateMonitorInput({ keywords: [] }, queryOnly);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(data, { keywords: [] });
+  });
+
+  it("checks keyword / exclude overlap against the stored lists", () => {
+    assert.deepEqual(validateMonitorInput({ excludeKeywords: ["ZiVA"] }, keywordsOnly).errors, [
+      "keywords and excludeKeywords overlap: ZiVA",
+    ]);
+    assert.deepEqual(validateMonitorInput({ keywords: ["job"] }, keywordsOnly).errors, [
+      "keywords and excludeKeywords overlap: job",
+    ]);
+  });
+
+  it("leaves matching rules alone when the patch doesn't touch them", () => {
+    const broken = { query: null, keywords: [], excludeKeywords: [] };
+    assert.deepEqual(validateMonitorInput({ isActive: false }, broken).errors, []);
+  });
+});
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import * as cheerio from "cheerio";
+import { compressHtml, decompressHtml, extractJsonLd, extractReadableText } from "../src/services/readability";
+
+const paragraph = (n: number) =>
+  `Paragraph ${n} of the story: the bank said transfers were delayed, customers complained, and engineers worked overnight to restore service.`;
+
+const PAGE = `<html><head>
+<script type="application/ld+json">
+  {"@context": "https://schema.org", "@graph": [
+    {"@type": "WebSite", "name": "Daily News"},
+    {"@type": ["NewsArticle"], "headline": "  Bank restores  transfers ",
+     "author": [{"@type": "Person", "name": "Ada Obi"}, "Ada Obi", {"name": "Tunde Bello"}],
+     "datePublished": "2025-10-06T09:30:00+01:00", "dateModified": "not a date",
+     "publisher": {"@type": "Organization", "name": "Daily News"},
+     "keywords": "Banking, Outage"}
+  ]}
+</script>
+<script type="application/ld+json">{ broken json </script>
+</head><body>
+<nav><a href="/">Home</a> <a href="/business">Business</a></nav>
+<div class="page has-sidebar">
+  <article class="story-body">
+    <h2>Bank restores transfers</h2>
+    <p>${paragraph(1)}</p>
+    <p>${paragraph(2)}</p>
+    <ul><li>Transfers are working again for most customers</li></ul>
+    <p>${paragraph(3)}</p>
+    <div class="share-bar"><a href="#">Share on X, Facebook and WhatsApp today</a></div>
+  </article>
+  <aside class="sidebar"><p>Most read: another story that has nothing to do with this one, really.</p></aside>
+</div>
+<div class="comments"><p>Great article, thanks for sharing it with us all, very informative!</p></div>
+<footer>© Daily News, all rights reserved, do not copy.</footer>
+</body></html>`;
+
+describe("extractReadableText", () => {
+  it("keeps the story with headings and list items, without boilerplate", () => {
+    const text = extractReadableText(cheerio.load(PAGE));
+    assert.deepEqual(text.split("\n\n"), [
+      "## Bank restores transfers",
+      paragraph(1),
+      paragraph(2),
+      "- Transfers are working again for most customers",
+      paragraph(3),
+    ]);
+  });
+
+  it("keeps <br> line breaks inside a paragraph", () => {
+    const page = `<html><body><article>
+      <p>${paragraph(1)}</p>
+      <p>Zenith Bank Plc,<br>Plot 84 Ajose Adeogun Street,<br/>
+         Victoria Island, Lagos — contact the press office for any further enquiries.</p>
+      <p>${paragraph(2)}</p>
+    </article></body></html>`;
+    assert.equal(
+      extractReadableText(cheerio.load(page)).split("\n\n")[1],
+      "Zenith Bank Plc,\nPlot 84 Ajose Adeogun Street,\nVictoria Island, Lagos — contact the press office for any further enquiries."
+    );
+  });
+
+  it("returns an empty string when nothing looks like an article", () => {
+    assert.equal(extractReadableText(cheerio.load("<html><body><nav><a href='/'>Home</a></nav></body></html>")), "");
+  });
+});
+
+describe("extractJsonLd", () => {
+  it("finds the article node inside @graph", () => {
+    assert.deepEqual(extractJsonLd(cheerio.load(PAGE)), {
+      headline: "Bank restores transfers",
+      description: null,
+      authors: ["Ada Obi", "Tunde Bello"],
+      datePublished: new Date("2025-10-06T08:30:00Z"),
+      dateModified: null,
+      publisher: "Daily News",
+      articleBody: null,
+      keywords: ["banking", "outage"],
+    });
+  });
+
+  it("returns null without an article node", () => {
+    assert.equal(extractJsonLd(cheerio.load('<script type="application/ld+json">{"@type": "WebSite"}</script>')), null);
+  });
+});
+
+describe("compressHtml", () => {
+  it("round-trips through gzip + base64", () => {
+    const stored = compressHtml(PAGE)!;
+    assert.ok(stored.length < PAGE.length);
+    assert.equal(decompressHtml(stored), PAGE);
+  });
+
+  it("skips oversized pages", () => {
+    assert.equal(compressHtml("x".repeat(5 * 1024 * 1024 + 1)), null);
+  });
+});
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ALLOW_ALL, isPathAllowed, parseRobots } from "../src/services/robots";
+
+const ROBOTS = `
+# comments are ignored
+User-agent: *
+Disallow: /private
+Allow: /private/press
+Crawl-delay: 2
+
+User-agent: GoogleBot
+User-agent: KonfamBot
+Disallow: /search
+Allow: /search/about$
+Disallow: /*.pdf$
+Crawl-delay: 5
+`;
+
+describe("parseRobots", () => {
+  it("prefers the group naming our token over *", () => {
+    const policy = parseRobots(ROBOTS, "KonfamBot/1.0");
+    assert.equal(policy.crawlDelaySeconds, 5);
+    assert.equal(isPathAllowed(policy, "/private/report"), true);
+    assert.equal(isPathAllowed(policy, "/search?q=zenith"), false);
+  });
+
+  it("falls back to the * group", () => {
+    const policy = parseRobots(ROBOTS, "OtherBot");
+    assert.equal(policy.crawlDelaySeconds, 2);
+    assert.equal(isPathAllowed(policy, "/private/report"), false);
+    assert.equal(isPathAllowed(policy, "/news"), true);
+  });
+
+  it("allows everything when no group applies", () => {
+    assert.deepEqual(parseRobots("User-agent: GoogleBot\nDisallow: /", "KonfamBot"), ALLOW_ALL);
+    assert.deepEqual(parseRobots("", "KonfamBot"), ALLOW_ALL);
+  });
+});
+
+describe("isPathAllowed", () => {
+  it("lets the longest matching rule win, Allow on ties", () => {
+    const policy = parseRobots(ROBOTS, "OtherBot");
+    assert.equal(isPathAllowed(policy, "/private/press/2024"), true);
+    assert.equal(isPathAllowed(parseRobots("User-agent: *\nDisallow: /a\nAllow: /a", "x"), "/a"), true);
+  });
+
+  it("supports * wildcards and $ anchors", () => {
+    const policy = parseRobots(ROBOTS, "KonfamBot");
+    assert.equal(isPathAllowed(policy, "/files/report.pdf"), false);
+    assert.equal(isPathAllowed(policy, "/files/report.pdf?download=1"), true);
+    assert.equal(isPathAllowed(policy, "/search/about"), true);
+    assert.equal(isPathAllowed(policy, "/search/about/team"), false);
+  });
+});
@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { diffText } from "../src/services/text-diff";
+
+describe("diffText", () => {
+  it("reports added, removed and unchanged lines in order", () => {
+    const diff = diffText("intro\nold rates\noutro", "intro\nnew rates\noutro\nfootnote");
+    assert.deepEqual(diff.lines, [
+      { type: "unchanged", text: "intro" },
+      { type: "removed", text: "old rates" },
+      { type: "added", text: "new rates" },
+      { type: "unchanged", text: "outro" },
+      { type: "added", text: "footnote" },
+    ]);
+    assert.deepEqual([diff.added, diff.removed, diff.unchanged], [2, 1, 2]);
+  });
+
+  it("ignores blank lines and surrounding whitespace", () => {
+    const diff = diffText("a\n\n  b  \r\n", "a\nb");
+    assert.deepEqual([diff.added, diff.removed, diff.unchanged], [0, 0, 2]);
+  });
+
+  it("handles empty texts", () => {
+    assert.equal(diffText("", "").lines.length, 0);
+    assert.equal(diffText("", "new").added, 1);
+    assert.equal(diffText("old", "").removed, 1);
+  });
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { estimateJaccard, fingerprintText, hammingDistance, nearDuplicateScore } from "../src/services/text-fingerprint";
+
+const WIRE_COPY =
+  "Zenith Bank said on Monday that customers who were debited twice during the weekend outage will be refunded " +
+  "within forty eight hours. The lender blamed a failed database upgrade at its Lagos data centre for the duplicate " +
+  "transactions and said no customer data was exposed. A spokesperson added that branches would open on Saturday to " +
+  "attend to affected customers, and that the mobile app and USSD channels had been fully restored by Sunday evening. " +
+  "The Central Bank of Nigeria said it was monitoring the situation and would review the incident report.";
+
+const OTHER_STORY =
+  "Shares of Nigerian telecom operators rose sharply on Tuesday after regulators approved a long awaited tariff " +
+  "review, the first in more than a decade. Analysts at several Lagos brokerage firms said the increase would ease " +
+  "pressure from rising diesel costs and currency losses, although consumer groups warned that subscribers could " +
+  "switch to cheaper bundles. The operators plan to publish new price lists before the end of the month, with data " +
+  "plans expected to rise faster than voice calls across all major networks in the country.";
+
+describe("fingerprintText", () => {
+  it("skips texts too short to fingerprint", () => {
+    assert.equal(fingerprintText("Zenith Bank restores transfers after outage"), null);
+  });
+
+  it("is deterministic and case / punctuation insensitive", () => {
+    const a = fingerprintText(WIRE_COPY)!;
+    const b = fingerprintText(WIRE_COPY.toUpperCase().replace(/\./g, " ;"))!;
+    assert.deepEqual(a, b);
+    assert.match(a.simhash, /^[0-9a-f]{16}$/);
+    assert.equal(a.minhash.length, 64);
+    assert.equal(a.bands.length, 20);
+    assert.ok(a.minhash.every((v) => Number.isInteger(v) && v >= -(2 ** 31) && v < 2 ** 31));
+  });
+});
+
+describe("comparison helpers", () => {
+  it("counts differing bits", () => {
+    assert.equal(hammingDistance("0000000000000000", "0000000000000000"), 0);
+    assert.equal(hammingDistance("0000000000000000", "ffffffffffffffff"), 64);
+    assert.equal(hammingDistance("8000000100000000", "0000000000000001"), 3);
+  });
+
+  it("estimates Jaccard from equal rows", () => {
+    assert.equal(estimateJaccard([1, 2, 3, 4], [1, 2, 0, 0]), 0.5);
+    assert.equal(estimateJaccard([1, 2], [1]), 0);
+  });
+});
+
+describe("nearDuplicateScore", () => {
+  const original = fingerprintText(WIRE_COPY)!;
+
+  it("matches a syndicated copy with its own intro and footer", () => {
+    const copy = fingerprintText(
+      `LAGOS (Daily News) - ${WIRE_COPY} Follow us on X for more business news and updates from Daily News.`
+    )!;
+    assert.ok(copy.bands.some((band) => original.bands.includes(band)));
+    assert.ok(nearDuplicateScore(original, copy)! >= 0.6);
+  });
+
+  it("scores identical texts 1", () => {
+    assert.equal(nearDuplicateScore(original, original), 1);
+  });
+
+  it("matches a copy with a few words edited", () => {
+    const edited = fingerprintText(WIRE_COPY.replace("Monday", "Tuesday").replace("forty eight", "seventy two"))!;
+    assert.ok(nearDuplicateScore(original, edited)! >= 0.6);
+  });
+
+  it("rejects an unrelated story", () => {
+    assert.equal(nearDuplicateScore(original, fingerprintText(OTHER_STORY)!), null);
+  });
+
+  it("rejects texts that only agree on SimHash", () => {
+    // same words, different order: identical SimHash, almost no shared shingles
+    const shuffled = fingerprintText(WIRE_COPY.split(" ").reverse().join(" "))!;
+    assert.equal(hammingDistance(original.simhash, shuffled.simhash), 0);
+    assert.equal(nearDuplicateScore(original, shuffled), null);
+  });
+
+  it("rejects a story that shares only its opening", () => {
+    const [opening] = WIRE_COPY.split(". ");
+    const followUp = fingerprintText(`${opening}. ${OTHER_STORY}`)!;
+    assert.equal(nearDuplicateScore(original, followUp), null);
+  });
+});